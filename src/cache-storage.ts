@@ -0,0 +1,284 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheEntry } from './types.js';
+
+/**
+ * Storage backend for SimpleCache
+ * Methods are synchronous so the cache API stays synchronous. The storage measures
+ * each entry it holds, so sizes and counts are only tracked here.
+ */
+export interface CacheStorage<T> {
+  readonly size: number;
+  readonly bytes: number; // Total size of all entries, the sum of their meta(key).bytes
+  get(key: string): CacheEntry<T> | undefined;
+  meta(key: string): Omit<CacheEntry<T>, 'data'> | undefined; // Timestamp, TTL and size without loading data
+  set(key: string, entry: CacheEntry<T>): void;
+  touch(key: string): void; // Mark an entry as most recently used
+  delete(key: string): void;
+  keys(): string[]; // Least recently used first
+  clear(): void;
+  dispose(): void; // Release resources; persistent backends keep their data
+}
+
+// Estimate the memory footprint of a value from its JSON size
+function estimateBytes(data: unknown): number {
+  try {
+    return Buffer.byteLength(JSON.stringify(data) ?? '');
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * In-memory storage (the default)
+ */
+export class MemoryCacheStorage<T> implements CacheStorage<T> {
+  private entries: Map<string, CacheEntry<T>> = new Map();
+  private totalBytes: number = 0;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  get(key: string): CacheEntry<T> | undefined {
+    return this.entries.get(key);
+  }
+
+  meta(key: string): Omit<CacheEntry<T>, 'data'> | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry<T>): void {
+    this.delete(key); // Re-insert so the entry becomes the most recent
+    const bytes = estimateBytes(entry.data);
+    this.entries.set(key, { ...entry, bytes });
+    this.totalBytes += bytes;
+  }
+
+  touch(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes ?? 0;
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+}
+
+// Temp files older than this were left behind by a crashed process; newer ones may still be in use
+const STALE_TEMP_MS = 10 * 60 * 1000;
+
+// Metadata kept in memory for each file on disk
+interface FileIndexEntry {
+  file: string;
+  bytes: number;
+  timestamp: number;
+  ttl: number;
+  staleTTL?: number;
+}
+
+// Envelope written to disk for each entry
+interface FileEnvelope<T> extends CacheEntry<T> {
+  key: string;
+}
+
+/**
+ * On-disk storage that survives server restarts
+ * Each entry is one JSON file written atomically (temp file + rename), readable by the owner only.
+ * When the byte budget is exceeded the oldest entries are removed.
+ */
+export class FileCacheStorage<T> implements CacheStorage<T> {
+  private index: Map<string, FileIndexEntry> = new Map();
+  private totalBytes: number = 0;
+
+  constructor(private directory: string, private maxBytes: number = 100 * 1024 * 1024) { // 100 MB default
+    fs.mkdirSync(directory, { recursive: true, mode: 0o700 });
+    this.load();
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  // Total bytes currently stored on disk
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  get(key: string): CacheEntry<T> | undefined {
+    const meta = this.index.get(key);
+    if (!meta) return undefined;
+
+    try {
+      const envelope = JSON.parse(fs.readFileSync(path.join(this.directory, meta.file), 'utf-8')) as FileEnvelope<T>;
+      return { data: envelope.data, timestamp: envelope.timestamp, ttl: envelope.ttl, staleTTL: envelope.staleTTL, bytes: meta.bytes };
+    } catch (error) {
+      // File removed or corrupted outside our control
+      console.warn(`Dropping unreadable cache entry ${key}:`, error);
+      this.delete(key);
+      return undefined;
+    }
+  }
+
+  meta(key: string): Omit<CacheEntry<T>, 'data'> | undefined {
+    const meta = this.index.get(key);
+    return meta ? { timestamp: meta.timestamp, ttl: meta.ttl, staleTTL: meta.staleTTL, bytes: meta.bytes } : undefined;
+  }
+
+  set(key: string, entry: CacheEntry<T>): void {
+    const file = this.fileFor(key);
+    const content = JSON.stringify({ key, ...entry } satisfies FileEnvelope<T>);
+    const bytes = Buffer.byteLength(content);
+    const target = path.join(this.directory, file);
+    const temp = `${target}.${process.pid}.tmp`;
+
+    try {
+      fs.writeFileSync(temp, content, { encoding: 'utf-8', mode: 0o600 });
+      fs.renameSync(temp, target);
+    } catch (error) {
+      // Disk full or not writable: the value is still returned, just not cached
+      console.warn(`Could not write cache entry ${key}:`, error);
+      fs.rmSync(temp, { force: true });
+      this.delete(key); // The previous value on disk is outdated
+      return;
+    }
+
+    const previous = this.index.get(key);
+    if (previous) {
+      this.totalBytes -= previous.bytes;
+      this.index.delete(key); // Re-insert so the entry becomes the most recent
+    }
+    this.index.set(key, { file, bytes, timestamp: entry.timestamp, ttl: entry.ttl, staleTTL: entry.staleTTL });
+    this.totalBytes += bytes;
+
+    this.enforceBudget(key);
+  }
+
+  touch(key: string): void {
+    // Recency is tracked in memory only; after a restart entries are ordered by write time
+    const meta = this.index.get(key);
+    if (meta) {
+      this.index.delete(key);
+      this.index.set(key, meta);
+    }
+  }
+
+  delete(key: string): void {
+    const meta = this.index.get(key);
+    if (!meta) return;
+
+    this.index.delete(key);
+    this.totalBytes -= meta.bytes;
+    try {
+      fs.unlinkSync(path.join(this.directory, meta.file));
+    } catch {
+      // Already gone
+    }
+  }
+
+  keys(): string[] {
+    return [...this.index.keys()];
+  }
+
+  clear(): void {
+    for (const key of this.keys()) {
+      this.delete(key);
+    }
+  }
+
+  dispose(): void {
+    // Keep files on disk for the next session
+    this.index.clear();
+    this.totalBytes = 0;
+  }
+
+  private fileFor(key: string): string {
+    return `${createHash('sha256').update(key).digest('hex')}.json`;
+  }
+
+  /**
+   * Rebuild the index from disk, dropping expired entries and stale temp files
+   */
+  private load(): void {
+    const now = Date.now();
+    const loaded: Array<[string, FileIndexEntry]> = [];
+
+    for (const file of fs.readdirSync(this.directory)) {
+      const filePath = path.join(this.directory, file);
+
+      if (file.endsWith('.tmp')) {
+        // Other processes sharing the directory may be writing this file right now
+        try {
+          if (now - fs.statSync(filePath).mtimeMs > STALE_TEMP_MS) {
+            fs.rmSync(filePath, { force: true });
+          }
+        } catch {
+          // Renamed or removed meanwhile
+        }
+        continue;
+      }
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        const envelope = JSON.parse(content) as FileEnvelope<T>;
+        if (now - envelope.timestamp > envelope.ttl + (envelope.staleTTL ?? 0)) {
+          fs.rmSync(filePath, { force: true });
+          continue;
+        }
+        loaded.push([envelope.key, {
+          file,
+          bytes: Buffer.byteLength(content),
+          timestamp: envelope.timestamp,
+          ttl: envelope.ttl,
+          staleTTL: envelope.staleTTL
+        }]);
+      } catch {
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+
+    // Oldest first, matching insertion order of the in-memory backend
+    loaded.sort((a, b) => a[1].timestamp - b[1].timestamp);
+    for (const [key, meta] of loaded) {
+      this.index.set(key, meta);
+      this.totalBytes += meta.bytes;
+    }
+
+    this.enforceBudget();
+  }
+
+  /**
+   * Remove least recently used entries until the byte budget is met, never evicting the entry just written
+   */
+  private enforceBudget(keep?: string): void {
+    for (const key of this.keys()) {
+      if (this.totalBytes <= this.maxBytes) break;
+      if (key !== keep) this.delete(key);
+    }
+  }
+}
@@ -1,83 +1,200 @@
 import { CacheEntry } from './types.js';
+import { CacheStorage, MemoryCacheStorage } from './cache-storage.js';
+
+export interface CacheOptions<T> {
+  storage?: CacheStorage<T>; // Defaults to in-memory storage
+  maxBytes?: number; // Byte budget across all entries (default: unlimited)
+}
+
+export interface LoadOptions {
+  ttl?: number; // How long a loaded value is fresh
+  staleTTL?: number; // How long after expiry the value is kept for revalidation
+  staleWhileRevalidate?: boolean; // Serve stale values immediately and refresh in the background
+}
 
 export class SimpleCache<T> {
-  private cache: Map<string, CacheEntry<T>> = new Map();
+  private cache: CacheStorage<T>;
   private defaultTTL: number;
   private maxSize: number;
+  private maxBytes: number;
+  private inflight: Map<string, Promise<T>> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
   private hits: number = 0;
   private misses: number = 0;
 
-  constructor(defaultTTL: number = 300000, maxSize: number = 100) { // 5 minutes default, 100 entries max
+  constructor(defaultTTL: number = 300000, maxSize: number = 100, options: CacheOptions<T> = {}) { // 5 minutes default, 100 entries max
+    this.cache = options.storage ?? new MemoryCacheStorage<T>();
     this.defaultTTL = defaultTTL;
     this.maxSize = maxSize;
-    
+    this.maxBytes = options.maxBytes ?? Infinity;
+
     // Automatic cleanup every minute
     this.cleanupInterval = setInterval(() => this.cleanup(), 60000);
   }
 
-  set(key: string, data: T, ttl?: number): void {
+  set(key: string, data: T, ttl?: number, staleTTL?: number): void {
+    // Replacing an entry must not evict another one
+    this.remove(key);
     // Ensure capacity with LRU eviction
-    this.ensureCapacity();
-    
+    while (this.cache.size > 0 && this.cache.size >= this.maxSize) {
+      this.remove(this.cache.keys()[0]);
+    }
+
     this.cache.set(key, {
       data,
       timestamp: Date.now(),
-      ttl: ttl || this.defaultTTL
+      ttl: ttl || this.defaultTTL,
+      staleTTL
     });
+
+    // The storage measures the entry, so the byte budget is checked after writing
+    this.enforceByteBudget(key);
   }
 
-  private ensureCapacity(): void {
-    if (this.cache.size >= this.maxSize) {
-      // Remove oldest entry (LRU)
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-      }
+  // Remove least recently used entries (storage keeps keys in recency order), never the one just written
+  private enforceByteBudget(keep: string): void {
+    for (const key of this.cache.keys()) {
+      if (this.cache.bytes <= this.maxBytes) break;
+      if (key !== keep) this.remove(key);
     }
   }
 
   get(key: string): T | null {
     const entry = this.cache.get(key);
-    
+
     if (!entry) {
       this.misses++;
       return null;
     }
 
-    const isExpired = Date.now() - entry.timestamp > entry.ttl;
-    
-    if (isExpired) {
-      this.cache.delete(key);
+    const age = Date.now() - entry.timestamp;
+
+    if (age > entry.ttl) {
+      // Keep stale entries around for revalidation until their stale window ends
+      if (age > entry.ttl + (entry.staleTTL ?? 0)) {
+        this.remove(key);
+      }
       this.misses++;
       return null;
     }
 
     this.hits++;
+    this.cache.touch(key);
     return entry.data;
   }
 
+  /**
+   * Get a value, loading it on a miss
+   * Concurrent calls for the same key share one load. The loader receives the
+   * stale value (if still within its stale window) so it can revalidate, e.g. with an ETag.
+   */
+  async getOrLoad(key: string, loader: (stale?: T) => Promise<T>, options: LoadOptions = {}): Promise<T> {
+    const entry = this.cache.get(key);
+
+    if (entry) {
+      const age = Date.now() - entry.timestamp;
+
+      if (age <= entry.ttl) {
+        this.hits++;
+        this.cache.touch(key);
+        return entry.data;
+      }
+
+      if (age <= entry.ttl + (entry.staleTTL ?? 0)) {
+        if (options.staleWhileRevalidate) {
+          this.hits++;
+          this.cache.touch(key);
+          this.load(key, loader, entry.data, options).catch(error => {
+            console.warn(`Background refresh failed for ${key}:`, error);
+          });
+          return entry.data;
+        }
+
+        this.misses++;
+        return this.load(key, loader, entry.data, options);
+      }
+
+      this.remove(key);
+    }
+
+    this.misses++;
+    return this.load(key, loader, undefined, options);
+  }
+
+  private load(key: string, loader: (stale?: T) => Promise<T>, stale: T | undefined, options: LoadOptions): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const promise = loader(stale)
+      .then(data => {
+        // Skip the write if the key was deleted or cleared while loading
+        if (this.inflight.get(key) === promise) {
+          this.set(key, data, options.ttl, options.staleTTL);
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === promise) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
   has(key: string): boolean {
     return this.get(key) !== null;
   }
 
   delete(key: string): void {
+    this.inflight.delete(key);
+    this.remove(key);
+  }
+
+  // Keys of fresh entries, least recently used first
+  keys(): string[] {
+    const now = Date.now();
+    return this.cache.keys().filter(key => {
+      const meta = this.cache.meta(key);
+      return meta !== undefined && now - meta.timestamp <= meta.ttl;
+    });
+  }
+
+  // Delete all entries whose key starts with the prefix
+  deleteByPrefix(prefix: string): number {
+    let deleted = 0;
+    for (const key of this.inflight.keys()) {
+      if (key.startsWith(prefix)) this.inflight.delete(key);
+    }
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.remove(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private remove(key: string): void {
     this.cache.delete(key);
   }
 
   clear(): void {
     this.cache.clear();
+    this.inflight.clear();
     // Reset statistics when cache is cleared
     this.hits = 0;
     this.misses = 0;
   }
 
-  // Clean up expired entries
+  // Clean up entries past their stale window
   cleanup(): void {
     const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
+    for (const key of this.cache.keys()) {
+      const entry = this.cache.meta(key);
+      if (entry && now - entry.timestamp > entry.ttl + (entry.staleTTL ?? 0)) {
+        this.remove(key);
       }
     }
   }
@@ -88,20 +205,41 @@ export class SimpleCache<T> {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
-    this.cache.clear();
+    // Persistent storage keeps its data for the next session
+    this.cache.dispose();
+    this.inflight.clear();
     this.hits = 0;
     this.misses = 0;
   }
 
   // Get cache statistics
-  getStats(): { size: number; maxSize: number; hitRate?: number; hits: number; misses: number } {
+  getStats(): {
+    size: number;
+    maxSize: number;
+    bytes: number;
+    maxBytes?: number;
+    hitRate?: number;
+    hits: number;
+    misses: number;
+    entries: Array<{ key: string; bytes: number; ageMs: number; stale: boolean }>;
+  } {
     const totalRequests = this.hits + this.misses;
+    const now = Date.now();
+
     return {
       size: this.cache.size,
       maxSize: this.maxSize,
+      bytes: this.cache.bytes,
+      maxBytes: Number.isFinite(this.maxBytes) ? this.maxBytes : undefined,
       hits: this.hits,
       misses: this.misses,
-      hitRate: totalRequests > 0 ? this.hits / totalRequests : undefined
+      hitRate: totalRequests > 0 ? this.hits / totalRequests : undefined,
+      // Least recently used first
+      entries: this.cache.keys().map(key => {
+        const meta = this.cache.meta(key);
+        const ageMs = meta ? now - meta.timestamp : 0;
+        return { key, bytes: meta?.bytes ?? 0, ageMs, stale: meta ? ageMs > meta.ttl : false };
+      })
     };
   }
-}
\ No newline at end of file
+}
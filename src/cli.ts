@@ -3,12 +3,50 @@
 /**
  * CLI entry point for CodeRabbit MCP Server
  * This file handles the server startup when used as a command-line tool
+ *
+ * Usage: coderabbit-mcp [--transport stdio|http] [--host <address>] [--port <number>]
+ * The HTTP bearer token is read from MCP_AUTH_TOKEN so it does not show up in process listings.
  */
 
-import { startServer } from './server.js';
+import { parseArgs } from 'util';
+import { startServer, ServerOptions } from './server.js';
+
+function parseOptions(): ServerOptions {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' }
+    }
+  });
+
+  if (values.transport !== undefined && values.transport !== 'stdio' && values.transport !== 'http') {
+    throw new Error(`Unknown transport "${values.transport}" (expected stdio or http)`);
+  }
+
+  const port = values.port !== undefined ? Number(values.port) : undefined;
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new Error(`Invalid port "${values.port}"`);
+  }
+
+  return { transport: values.transport, host: values.host, port };
+}
+
+async function main() {
+  const started = await startServer(parseOptions());
+
+  // Close HTTP sessions cleanly on shutdown
+  if ('close' in started && 'url' in started) {
+    const shutdown = () => {
+      started.close().finally(() => process.exit(0));
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  }
+}
 
 // Start the MCP server
-startServer().catch((error) => {
+main().catch((error) => {
   console.error('Failed to start CodeRabbit MCP Server:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -1,18 +1,52 @@
 import axios, { AxiosInstance } from 'axios';
-import { CodeRabbitReview, CodeRabbitIssue, ReviewStats } from './types.js';
+import {
+  CodeRabbitReview,
+  CodeRabbitIssue,
+  ReviewStats,
+  DeveloperActivityReport,
+  DeveloperActivityReportSchema,
+  ReportGroupBy,
+  ReportChunkBy
+} from './types.js';
 import { simpleGit, SimpleGit } from 'simple-git';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { SimpleCache } from './cache.js';
+import { parseReportResponse } from './report-format.js';
+import { mapWithConcurrency, mergeReportChunks, resolveChunkBy, splitReportRange, ReportChunkResult, REPORT_CHUNK_CONCURRENCY } from './report-chunks.js';
+import { collectLocalDiff, LocalDiff, LocalDiffOptions } from './local-diff.js';
+
+// Reports take minutes to generate, so keep them for a day
+const REPORT_CACHE_TTL = 24 * 60 * 60 * 1000;
+const REPORT_KEY_PREFIX = 'report:';
+
+// Parameters that identify a report
+type ReportRequest = {
+  from: string;
+  to: string;
+  prompt?: string;
+  groupBy?: ReportGroupBy;
+  orgId?: string;
+  chunkBy?: ReportChunkBy;
+};
 
 export class CodeRabbitClient {
   private api: AxiosInstance;
   private git: SimpleGit;
   private apiKey: string;
   private githubToken?: string;
+  private reportCache?: SimpleCache<unknown>;
 
-  constructor(apiKey: string, apiUrl: string = 'https://api.coderabbit.ai', githubToken?: string) {
+  constructor(
+    apiKey: string,
+    apiUrl: string = 'https://api.coderabbit.ai',
+    githubToken?: string,
+    options: { reportCache?: SimpleCache<unknown> } = {}
+  ) {
     this.apiKey = apiKey;
     this.githubToken = githubToken;
+    this.reportCache = options.reportCache;
     
     this.api = axios.create({
       baseURL: apiUrl,
@@ -76,23 +110,24 @@ export class CodeRabbitClient {
 
   /**
    * Get review history for a repository - NOT AVAILABLE via public API
-   * @deprecated Since v2.0.0 - Use GitHub API to list PR comments instead. Will be removed in v3.0.0
+   * @deprecated Since v2.0.0 - Use the getReviewHistory tool, built from GitHub, instead. Will be removed in v3.0.0
    * @throws {Error} This endpoint is not available in the public API
-   * @see {@link GitHubIntegration.getCodeRabbitComments} for the recommended approach
+   * @see {@link GitHubIntegration.getReviewHistory} for the recommended approach
    */
   async getReviewHistory(params: {
     repository: string;
     limit?: number;
     since?: string;
   }): Promise<CodeRabbitReview[]> {
-    console.warn('[DEPRECATED] getReviewHistory is no longer available. Use GitHub API to get PR history with CodeRabbit comments. This method will be removed in v3.0.0');
-    throw new Error('This endpoint is not available in the public API. Use GitHub API to get PR history with CodeRabbit comments.');
+    console.warn('[DEPRECATED] getReviewHistory is no longer available. Use GitHubIntegration.getReviewHistory to build the history from GitHub. This method will be removed in v3.0.0');
+    throw new Error('This endpoint is not available in the public API. Use GitHubIntegration.getReviewHistory (the getReviewHistory tool) to build the history from GitHub.');
   }
 
   /**
    * Configure review settings for a repository - NOT AVAILABLE via public API
    * @deprecated Since v2.0.0 - Use .coderabbit.yaml file in repository instead. Will be removed in v3.0.0
    * @throws {Error} This endpoint is not available in the public API
+   * @see {@link applyConfigEdits} to make these changes to .coderabbit.yaml
    * @example
    * // Instead, create a .coderabbit.yaml file in your repository root:
    * // reviews:
@@ -114,28 +149,43 @@ export class CodeRabbitClient {
 
   /**
    * Generate a developer activity report (Beta)
+   * Long ranges are generated in chunks and merged; chunks that fail are listed in failedChunks.
    */
-  async generateReport(params: {
-    from: string;
-    to: string;
-    prompt?: string;
-    groupBy?: string;
-    orgId?: string;
-  }): Promise<any> {
+  async generateReport(params: ReportRequest & {
+    refresh?: boolean; // Ignore cached reports for the same parameters
+  }, options: { signal?: AbortSignal } = {}): Promise<DeveloperActivityReport> {
     try {
-      console.log('Generating developer activity report...');
-      
-      const payload = {
-        from: params.from,
-        to: params.to,
-        prompt: params.prompt,
-        groupBy: params.groupBy,
-        orgId: params.orgId
-      };
+      const chunks = splitReportRange(params, params.chunkBy);
+
+      if (chunks.length === 1) {
+        return await this.loadReport(params, async () => {
+          // Log to stderr: stdout carries the MCP protocol
+          console.error('Generating developer activity report...');
+          const response = await this.api.post('/v1/report.generate', this.buildReportPayload(params), { signal: options.signal });
+          return parseReportResponse(response.data, params);
+        });
+      }
+
+      return await this.loadReport(params, async () => {
+        console.error(`Generating developer activity report in ${chunks.length} chunks...`);
+        // Completed chunks are cached individually, so a rerun only generates the missing ones
+        const results = await mapWithConcurrency(chunks, REPORT_CHUNK_CONCURRENCY, async (range): Promise<ReportChunkResult> => {
+          try {
+            const report = await this.generateReport({ ...params, ...range, chunkBy: 'none' }, options);
+            return { range, report };
+          } catch (error) {
+            return { range, error: error instanceof Error ? error.message : String(error) };
+          }
+        });
 
-      const response = await this.api.post('/v1/report.generate', payload);
-      
-      return response.data;
+        if (options.signal?.aborted) {
+          throw new Error('Report generation was cancelled');
+        }
+        if (results.every(result => !result.report)) {
+          throw new Error(`All ${chunks.length} report chunks failed: ${results[0].error}`);
+        }
+        return mergeReportChunks(params, results);
+      });
     } catch (error) {
       console.error('Error generating report:', error);
       throw error;
@@ -143,44 +193,72 @@ export class CodeRabbitClient {
   }
 
   /**
-   * Get local git diff for uncommitted changes
+   * Load a report through the report cache
+   * Identical requests made while a report is generating share the same result.
    */
-  private async getLocalDiff(): Promise<string> {
-    try {
-      // Get both staged and unstaged changes
-      const stagedDiff = await this.git.diff(['--cached']);
-      const unstagedDiff = await this.git.diff();
-      
-      let combinedDiff = '';
-      if (stagedDiff) {
-        combinedDiff += '=== STAGED CHANGES ===\n' + stagedDiff + '\n';
-      }
-      if (unstagedDiff) {
-        combinedDiff += '=== UNSTAGED CHANGES ===\n' + unstagedDiff + '\n';
-      }
-      
-      if (!combinedDiff) {
-        // No uncommitted changes, get diff from last commit
-        combinedDiff = await this.git.diff(['HEAD~1', 'HEAD']);
+  private async loadReport(
+    params: ReportRequest & { refresh?: boolean },
+    generate: () => Promise<DeveloperActivityReport>
+  ): Promise<DeveloperActivityReport> {
+    if (!this.reportCache) {
+      return generate();
+    }
+
+    const id = this.getReportId(params);
+    const cacheKey = `${REPORT_KEY_PREFIX}${id}`;
+    if (this.reportCache.has(cacheKey)) {
+      const cached = this.getCachedReport(id);
+      // Also drop partial reports, so missing chunks are retried, and entries in the untyped format of earlier versions
+      if (params.refresh || cached === null || cached.failedChunks) {
+        this.reportCache.delete(cacheKey);
       }
-      
-      return combinedDiff;
-    } catch (error) {
-      console.error('Error getting local diff:', error);
-      return '';
     }
+    return await this.reportCache.getOrLoad(cacheKey, generate, { ttl: REPORT_CACHE_TTL }) as DeveloperActivityReport;
+  }
+
+  private buildReportPayload(params: ReportRequest) {
+    return {
+      from: params.from,
+      to: params.to,
+      prompt: params.prompt,
+      groupBy: params.groupBy,
+      orgId: params.orgId
+    };
   }
 
   /**
-   * Get current git branch
+   * Stable ID of the report generated for a set of parameters
    */
-  private async getCurrentBranch(): Promise<string> {
-    try {
-      const branch = await this.git.revparse(['--abbrev-ref', 'HEAD']);
-      return branch.trim();
-    } catch (error) {
-      return 'main';
-    }
+  getReportId(params: ReportRequest): string {
+    const chunkBy = resolveChunkBy(params, params.chunkBy);
+    // Unchunked reports keep the IDs they had before chunking existed
+    const key = chunkBy === 'none' ? this.buildReportPayload(params) : { ...this.buildReportPayload(params), chunkBy };
+    return createHash('sha256').update(JSON.stringify(key)).digest('hex');
+  }
+
+  /**
+   * Get a previously generated report by ID, or null when it is not cached
+   */
+  getCachedReport(id: string): DeveloperActivityReport | null {
+    const result = DeveloperActivityReportSchema.safeParse(this.reportCache?.get(`${REPORT_KEY_PREFIX}${id}`));
+    return result.success ? result.data : null;
+  }
+
+  /**
+   * IDs of reports currently held in the cache
+   */
+  listCachedReportIds(): string[] {
+    return (this.reportCache?.keys() ?? [])
+      .filter(key => key.startsWith(REPORT_KEY_PREFIX))
+      .map(key => key.slice(REPORT_KEY_PREFIX.length));
+  }
+
+  /**
+   * Get the local changes a CodeRabbit review of the current branch would cover
+   * Staged, unstaged and branch-vs-base diffs with per-file stats, within size limits
+   */
+  async getLocalDiff(options: LocalDiffOptions = {}): Promise<LocalDiff> {
+    return collectLocalDiff(this.git, options);
   }
 
   /**
@@ -0,0 +1,65 @@
+import { CodeRabbitCommand } from './types.js';
+
+export interface CodeRabbitCommandParams {
+  command: CodeRabbitCommand;
+  paths?: string[];
+  instructions?: string;
+}
+
+/**
+ * Build the text posted after the @coderabbitai mention
+ * The command stays on the first line, where CodeRabbit looks for it; instructions follow as a separate paragraph.
+ */
+export function formatCodeRabbitCommand(params: CodeRabbitCommandParams): string {
+  let text: string = params.command;
+  if (params.paths?.length) {
+    text += ` for ${params.paths.join(', ')}`;
+  }
+  if (params.instructions) {
+    text += `\n\n${params.instructions.trim()}`;
+  }
+  return text;
+}
+
+// Comment posted to CodeRabbit, or a CodeRabbit comment that may answer it
+export interface PostedComment {
+  id: number;
+  body: string;
+  created_at: string;
+}
+
+// Quotes shorter than this are too generic to identify a question
+const MIN_QUOTE_LENGTH = 8;
+const MAX_QUOTE_LENGTH = 60;
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Text CodeRabbit would quote from a question: its first line without the mention
+ */
+function getQuotableText(body: string): string | undefined {
+  const firstLine = body.replace(/@coderabbitai\b/gi, '').split('\n').find(line => line.trim() !== '');
+  const text = normalizeText(firstLine ?? '').slice(0, MAX_QUOTE_LENGTH);
+  return text.length >= MIN_QUOTE_LENGTH ? text : undefined;
+}
+
+/**
+ * Find CodeRabbit's reply to a posted comment
+ * Comments linking to or quoting the question win; otherwise the earliest later comment that does not
+ * link to another comment is taken, so answers to other questions are not mixed up.
+ */
+export function findCodeRabbitReply<T extends PostedComment>(question: PostedComment, comments: T[]): T | undefined {
+  const candidates = comments
+    .filter(comment => comment.id > question.id && comment.created_at >= question.created_at)
+    .sort((a, b) => a.id - b.id);
+  const quote = getQuotableText(question.body);
+
+  const referencesQuestion = (comment: T) =>
+    new RegExp(`issuecomment-${question.id}\\b`).test(comment.body) ||
+    (quote !== undefined && comment.body.split('\n').some(line => line.startsWith('>') && normalizeText(line.slice(1)).includes(quote)));
+
+  return candidates.find(referencesQuestion) ??
+    candidates.find(comment => [...comment.body.matchAll(/issuecomment-(\d+)/g)].every(match => Number(match[1]) === question.id));
+}
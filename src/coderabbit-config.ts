@@ -0,0 +1,196 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { simpleGit } from 'simple-git';
+import { Document, isMap, isScalar, isSeq, parseDocument, YAMLMap, YAMLSeq } from 'yaml';
+import { ZodIssue } from 'zod';
+import { CodeRabbitConfig, CodeRabbitConfigEdits, CodeRabbitConfigSchema } from './types.js';
+
+export const CODERABBIT_CONFIG_FILE = '.coderabbit.yaml';
+
+// Added to new files so editors can validate and complete the config
+const SCHEMA_COMMENT = ' yaml-language-server: $schema=https://coderabbit.ai/integrations/schema.v2.json';
+
+export interface ConfigIssue {
+  path: string; // Dotted path such as reviews.profile, empty for the whole file
+  message: string;
+}
+
+export interface ConfigValidation {
+  valid: boolean;
+  config?: CodeRabbitConfig;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[]; // Options this server does not know; CodeRabbit may still accept them
+}
+
+function formatPath(issuePath: (string | number)[]): string {
+  return issuePath.map(part => (typeof part === 'number' ? `[${part}]` : part)).join('.').replace(/\.\[/g, '[');
+}
+
+/**
+ * Turn a zod issue into an explanation that names the offending option
+ */
+function explainIssue(issue: ZodIssue): ConfigIssue {
+  const location = formatPath(issue.path);
+  switch (issue.code) {
+    case 'invalid_enum_value':
+      return { path: location, message: `must be one of ${issue.options.map(option => `"${option}"`).join(', ')} (got "${String(issue.received)}")` };
+    case 'invalid_type':
+      return { path: location, message: `must be ${issue.expected === 'array' ? 'a list' : `a ${issue.expected}`} (got ${issue.received})` };
+    case 'too_big':
+      return { path: location, message: `is too long (at most ${issue.maximum} ${issue.type === 'array' ? 'items' : 'characters'})` };
+    default:
+      return { path: location, message: issue.message };
+  }
+}
+
+/**
+ * Report keys that are not part of the known schema
+ */
+function findUnknownKeys(config: Record<string, unknown>): ConfigIssue[] {
+  const warnings: ConfigIssue[] = [];
+  const known = Object.keys(CodeRabbitConfigSchema.shape);
+  const knownReviews = Object.keys(CodeRabbitConfigSchema.shape.reviews.unwrap().shape);
+
+  for (const key of Object.keys(config)) {
+    if (!known.includes(key)) {
+      warnings.push({ path: key, message: 'is not a known CodeRabbit option' });
+    }
+  }
+  const reviews = config.reviews;
+  if (reviews && typeof reviews === 'object' && !Array.isArray(reviews)) {
+    for (const key of Object.keys(reviews)) {
+      if (!knownReviews.includes(key)) {
+        warnings.push({ path: `reviews.${key}`, message: 'is not a known CodeRabbit option' });
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Parse and validate .coderabbit.yaml content
+ * An empty file is valid and means CodeRabbit's defaults apply.
+ */
+export function validateCodeRabbitConfig(content: string): ConfigValidation {
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    return {
+      valid: false,
+      errors: doc.errors.map(error => ({ path: '', message: `YAML syntax error: ${error.message}` })),
+      warnings: []
+    };
+  }
+
+  const data = doc.toJS() ?? {};
+  const result = CodeRabbitConfigSchema.safeParse(data);
+  if (!result.success) {
+    return { valid: false, errors: result.error.issues.map(explainIssue), warnings: [] };
+  }
+  return { valid: true, config: result.data, errors: [], warnings: findUnknownKeys(result.data) };
+}
+
+/**
+ * Get a sequence at a path, creating it when missing
+ */
+function getSeq(doc: Document, keyPath: string[]): YAMLSeq {
+  const node = doc.getIn(keyPath, true);
+  if (isSeq(node)) return node;
+  if (node !== undefined && node !== null) {
+    throw new Error(`${keyPath.join('.')} must be a list to be edited`);
+  }
+  const seq = doc.createNode([]) as YAMLSeq;
+  doc.setIn(keyPath, seq);
+  return seq;
+}
+
+/**
+ * Apply edits to .coderabbit.yaml content, keeping comments and formatting of untouched options
+ */
+export function applyConfigEdits(content: string, edits: CodeRabbitConfigEdits): string {
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot edit ${CODERABBIT_CONFIG_FILE} with syntax errors: ${doc.errors[0].message}`);
+  }
+  if (doc.contents === null && !doc.commentBefore) {
+    doc.commentBefore = SCHEMA_COMMENT;
+  }
+
+  if (edits.profile) {
+    doc.setIn(['reviews', 'profile'], edits.profile);
+  }
+  if (edits.autoReview !== undefined) {
+    doc.setIn(['reviews', 'auto_review', 'enabled'], edits.autoReview);
+  }
+
+  if (edits.addPathFilters?.length || edits.removePathFilters?.length) {
+    const filters = getSeq(doc, ['reviews', 'path_filters']);
+    const remove = new Set(edits.removePathFilters ?? []);
+    filters.items = filters.items.filter(item => !remove.has(String(isScalar(item) ? item.value : item)));
+    const existing = new Set(filters.toJSON() as string[]);
+    for (const filter of edits.addPathFilters ?? []) {
+      if (!existing.has(filter)) filters.add(filter);
+    }
+  }
+
+  if (edits.pathInstructions?.length || edits.removePathInstructions?.length) {
+    const instructions = getSeq(doc, ['reviews', 'path_instructions']);
+    const remove = new Set(edits.removePathInstructions ?? []);
+    instructions.items = instructions.items.filter(item => !(isMap(item) && remove.has(String(item.get('path')))));
+
+    for (const entry of edits.pathInstructions ?? []) {
+      const match = instructions.items.find((item): item is YAMLMap => isMap(item) && item.get('path') === entry.path);
+      if (match) {
+        match.set('instructions', entry.instructions);
+      } else {
+        instructions.add(doc.createNode(entry));
+      }
+    }
+  }
+
+  return doc.toString();
+}
+
+/**
+ * Path of the config file at the root of the local repository (or the working directory outside one)
+ */
+export async function getLocalConfigPath(): Promise<string> {
+  let root = process.cwd();
+  try {
+    root = (await simpleGit().revparse(['--show-toplevel'])).trim();
+  } catch {
+    // Not a git repository
+  }
+  return path.join(root, CODERABBIT_CONFIG_FILE);
+}
+
+/**
+ * Read a local config file, or null when it does not exist
+ */
+export async function readLocalConfig(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function writeLocalConfig(filePath: string, content: string): Promise<void> {
+  await fs.writeFile(filePath, content, 'utf-8');
+}
+
+/**
+ * Render validation results as markdown
+ */
+export function formatConfigValidation(validation: ConfigValidation): string {
+  const format = (issue: ConfigIssue) => `- ${issue.path ? `\`${issue.path}\` ` : ''}${issue.message}`;
+
+  let content = validation.valid ? '**Validation:** ✅ valid\n' : `**Validation:** ❌ ${validation.errors.length} error(s)\n`;
+  if (validation.errors.length > 0) {
+    content += `\n### Errors\n${validation.errors.map(format).join('\n')}\n`;
+  }
+  if (validation.warnings.length > 0) {
+    content += `\n### Warnings\n${validation.warnings.map(format).join('\n')}\n`;
+  }
+  return content;
+}
@@ -0,0 +1,24 @@
+// Valid GitHub owner and repository names
+const GITHUB_NAME_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+
+// Hosts of github.com remotes, including SSH over the HTTPS port
+const GITHUB_REMOTE_HOSTS = ['github.com', 'ssh.github.com'];
+
+/**
+ * Parse owner and repo from a git remote URL (HTTPS, SSH or scp-style)
+ * Remotes on other hosts (GitLab, Bitbucket, ...) are rejected unless listed in extraHosts,
+ * e.g. SSH host aliases that point to github.com.
+ */
+export function parseGitRemoteUrl(url: string, extraHosts: string[] = []): { owner: string; repo: string } | null {
+  const match = url.trim().match(/^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/i);
+  if (!match || !GITHUB_NAME_PATTERN.test(match[2]) || !GITHUB_NAME_PATTERN.test(match[3])) {
+    return null;
+  }
+
+  const host = match[1].toLowerCase();
+  const allowedHosts = [...GITHUB_REMOTE_HOSTS, ...extraHosts.map(extra => extra.trim().toLowerCase())];
+  if (!allowedHosts.includes(host)) {
+    return null;
+  }
+  return { owner: match[2], repo: match[3] };
+}
@@ -1,6 +1,21 @@
 import { Octokit } from '@octokit/rest';
 import { throttling } from '@octokit/plugin-throttling';
 import { simpleGit, SimpleGit } from 'simple-git';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CodeRabbitIssue, CodeRabbitReview as StructuredReview } from './types.js';
+import { SimpleCache } from './cache.js';
+import { CacheStorage } from './cache-storage.js';
+import { buildStructuredReview, detectReviewState } from './review-parser.js';
+import { planSuggestions, applyEdits, createUnifiedDiff, SuggestionOutcome } from './suggestion-applier.js';
+import { parseGitRemoteUrl } from './git-remote.js';
+import { findCodeRabbitReply, PostedComment } from './coderabbit-commands.js';
+import { countPendingQuestions, countUnresolvedFindings, PullRequestDashboardEntry } from './pr-dashboard.js';
+import { mapWithConcurrency } from './report-chunks.js';
+import { ReviewHistoryEntry } from './review-history.js';
+import { groupReviewRounds, ReviewRound } from './review-rounds.js';
 
 // Create Octokit with throttling plugin
 const MyOctokit = Octokit.plugin(throttling);
@@ -8,11 +23,39 @@ const MyOctokit = Octokit.plugin(throttling);
 // CodeRabbit bot usernames (GitHub Apps can have [bot] suffix)
 const CODERABBIT_USERNAMES = ['coderabbitai', 'coderabbitai[bot]'];
 
+// Maximum page size supported by GitHub list endpoints
+const PAGE_SIZE = 100;
+
+// Paginated responses take one entry per page, so allow more than the cache default
+const CACHE_MAX_ENTRIES = 500;
+
+// Identical reads within this window (e.g. concurrent tool calls) share one response
+const RESPONSE_FRESH_TTL = 5000;
+
+// Rate limit status is refreshed at most once per minute, in the background after that
+const RATE_LIMIT_TTL = 60000;
+const RATE_LIMIT_STALE_TTL = 300000;
+const RATE_LIMIT_CACHE_KEY = 'rate-limit';
+
+// Branch diffs embedded in prompts are cut off beyond this size
+const MAX_BRANCH_DIFF_CHARS = 20000;
+
+// Polling backoff for waiting on CodeRabbit reviews
+const MAX_POLL_INTERVAL_MS = 60000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
+// Pull requests loaded in parallel for the dashboard and review history, each needing several GitHub calls
+const PULL_REQUEST_CONCURRENCY = 4;
+
+// The search API returns at most this many results per query
+const SEARCH_RESULT_LIMIT = 1000;
+
 // Type definitions for return values
 interface CodeRabbitComment {
   id: number;
   body: string;
   created_at: string;
+  updated_at: string;
   html_url: string;
 }
 
@@ -21,22 +64,104 @@ interface CodeRabbitReview {
   state: string;
   body: string;
   submitted_at: string | null;
+  commit_id: string | null;
   html_url: string;
 }
 
+interface CodeRabbitReviewComment {
+  id: number;
+  review_id: number | null;
+  in_reply_to_id?: number;
+  body: string;
+  path: string;
+  line: number | null;
+  start_line: number | null;
+  side: string | null;
+  commit_id: string;
+  diff_hunk: string;
+  created_at: string;
+  html_url: string;
+  thread_id?: string;
+  is_resolved?: boolean;
+  is_outdated?: boolean;
+}
+
+interface ReviewThreadState {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+}
+
+interface ReviewThreadsQueryResult {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: Array<ReviewThreadState & { comments: { nodes: Array<{ databaseId: number }> } }>;
+      };
+    } | null;
+  };
+}
+
+type ReviewState = 'pending' | 'in_progress' | 'completed' | 'skipped' | 'paused';
+
+interface CodeRabbitReviewStatus {
+  state: ReviewState;
+  headSha: string;
+  reviewedSha?: string; // Head SHA of the latest CodeRabbit review
+  checkStatus?: string; // CodeRabbit check run or commit status on the head commit
+  detail?: string;
+}
+
+// Cached GitHub response with the ETag used for conditional requests
+interface CachedResponse {
+  etag?: string;
+  link?: string;
+  data: unknown;
+}
+
+// Options shared by all list operations
+interface ListOptions {
+  maxItems?: number; // Cap on raw items fetched from GitHub
+  since?: string; // ISO timestamp; only return items updated/submitted after it
+}
+
+interface ListResult<T> {
+  items: T[];
+  truncated: boolean; // True when maxItems stopped pagination before the last page
+}
+
 export class GitHubIntegration {
   private octokit: InstanceType<typeof MyOctokit>;
   private git: SimpleGit;
+  private cache: SimpleCache<CachedResponse>;
+  private cacheTTL: number;
+  private remoteHosts: string[];
   private rateLimiter = {
     resetTime: Date.now() + 3600000, // 1 hour from now
     remaining: 5000,
     limit: 5000
   };
 
-  constructor(githubToken: string) {
+  constructor(
+    githubToken: string,
+    options: {
+      cacheTTL?: number;
+      cacheStorage?: CacheStorage<CachedResponse>;
+      cacheMaxBytes?: number;
+      remoteHosts?: string[]; // Git remote hosts besides github.com that point to GitHub, e.g. SSH aliases
+    } = {}
+  ) {
     if (!githubToken || githubToken.trim() === '') {
       throw new Error('GitHub token is required and cannot be empty');
     }
+
+    this.cacheTTL = options.cacheTTL ?? 300000;
+    this.remoteHosts = options.remoteHosts ?? [];
+    this.cache = new SimpleCache<CachedResponse>(this.cacheTTL, CACHE_MAX_ENTRIES, {
+      storage: options.cacheStorage,
+      maxBytes: options.cacheMaxBytes
+    });
     
     this.octokit = new MyOctokit({
       auth: githubToken,
@@ -58,15 +183,56 @@ export class GitHubIntegration {
     this.git = simpleGit();
   }
 
+  /**
+   * Build the cache key prefix for a pull request
+   */
+  private pullKey(owner: string, repo: string, prNumber: number): string {
+    return `${owner}/${repo}#${prNumber}:`;
+  }
+
+  /**
+   * Drop all cached responses for a pull request
+   */
+  invalidatePullRequest(owner: string, repo: string, prNumber: number): void {
+    this.cache.deleteByPrefix(this.pullKey(owner, repo, prNumber));
+  }
+
+  /**
+   * Perform a GET request with If-None-Match using the cached ETag
+   * A 304 response (which does not count against the rate limit) returns the cached data.
+   * Concurrent requests for the same key share one GitHub call.
+   */
+  private async cachedRequest<T>(
+    key: string,
+    request: (headers: Record<string, string>) => Promise<{ data: T; headers: { etag?: string; link?: string } }>
+  ): Promise<{ data: T; headers: { link?: string } }> {
+    const cached = await this.cache.getOrLoad(key, async stale => {
+      try {
+        const response = await request(stale?.etag ? { 'if-none-match': stale.etag } : {});
+        return { etag: response.headers.etag, link: response.headers.link, data: response.data };
+      } catch (error) {
+        if (stale && (error as { status?: number }).status === 304) {
+          return stale;
+        }
+        throw error;
+      }
+    }, { ttl: RESPONSE_FRESH_TTL, staleTTL: this.cacheTTL });
+
+    return { data: cached.data as T, headers: { link: cached.link } };
+  }
+
   /**
    * Check and update rate limit status
    */
   private async checkRateLimit(): Promise<void> {
     try {
-      const { data } = await this.octokit.rest.rateLimit.get();
-      // Use core resource which contains the standard API rate limits
-      // Fallback to data.rate for older API responses
-      const core = data?.resources?.core ?? data?.rate;
+      const cached = await this.cache.getOrLoad(RATE_LIMIT_CACHE_KEY, async () => {
+        const { data } = await this.octokit.rest.rateLimit.get();
+        // Use core resource which contains the standard API rate limits
+        // Fallback to data.rate for older API responses
+        return { data: data?.resources?.core ?? data?.rate };
+      }, { ttl: RATE_LIMIT_TTL, staleTTL: RATE_LIMIT_STALE_TTL, staleWhileRevalidate: true });
+      const core = cached.data as { remaining: number; limit: number; reset: number } | undefined;
       
       if (!core) {
         console.warn('Unable to retrieve rate limit information from GitHub API');
@@ -92,6 +258,66 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Fill in owner and repo from the origin remote of the local checkout when they are not given
+   * `inferred` describes what was filled in so tools can report it.
+   */
+  async resolveRepository<T extends { owner?: string; repo?: string }>(
+    params: T
+  ): Promise<T & { owner: string; repo: string; inferred: string[] }> {
+    if (params.owner && params.repo) {
+      return { ...params, owner: params.owner, repo: params.repo, inferred: [] };
+    }
+
+    const origin = (await this.git.getRemotes(true)).find(remote => remote.name === 'origin');
+    if (!origin) {
+      throw new Error('owner and repo are required: the local checkout has no origin remote');
+    }
+    const remote = parseGitRemoteUrl(origin.refs.fetch, this.remoteHosts);
+    if (!remote) {
+      // The URL is not included as it may contain credentials
+      throw new Error('owner and repo are required: the origin remote is not a github.com repository URL (add SSH aliases for github.com to GITHUB_REMOTE_HOSTS)');
+    }
+
+    const owner = params.owner ?? remote.owner;
+    const repo = params.repo ?? remote.repo;
+    return { ...params, owner, repo, inferred: [`repository ${owner}/${repo} from the origin remote`] };
+  }
+
+  /**
+   * Fill in owner, repo and PR number from the local checkout when they are not given
+   * The PR is the open pull request whose head is the current branch.
+   */
+  async resolvePullRequest<T extends { owner?: string; repo?: string; prNumber?: number }>(
+    params: T
+  ): Promise<T & { owner: string; repo: string; prNumber: number; inferred: string[] }> {
+    const resolved = await this.resolveRepository(params);
+    if (params.prNumber !== undefined) {
+      return { ...resolved, prNumber: params.prNumber };
+    }
+
+    const branch = (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    if (branch === 'HEAD') {
+      throw new Error('prNumber is required: the local checkout is not on a branch');
+    }
+
+    await this.checkRateLimit();
+    const { owner, repo } = resolved;
+    const { data } = await this.cachedRequest(`${owner}/${repo}:pulls:head:${branch}`, headers =>
+      this.octokit.pulls.list({ owner, repo, state: 'open', head: `${owner}:${branch}`, headers })
+    );
+    if (data.length === 0) {
+      throw new Error(`prNumber is required: no open pull request in ${owner}/${repo} has the current branch ${branch} as head`);
+    }
+
+    const prNumber = data[0].number;
+    return {
+      ...resolved,
+      prNumber,
+      inferred: [...resolved.inferred, `PR #${prNumber}, the open pull request for branch ${branch}`]
+    };
+  }
+
   /**
    * Create a pull request to trigger CodeRabbit review
    */
@@ -115,6 +341,8 @@ export class GitHubIntegration {
         body: params.body || 'PR created for CodeRabbit review'
       });
 
+      this.invalidatePullRequest(params.owner, params.repo, pr.data.number);
+
       return {
         number: pr.data.number,
         url: pr.data.html_url,
@@ -126,6 +354,55 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Fetch every page of a GitHub list endpoint
+   * Stops early once maxItems raw items have been collected and reports whether more were available
+   */
+  private async paginate<T>(
+    request: (page: number) => Promise<{ data: T[]; headers: { link?: string } }>,
+    maxItems?: number
+  ): Promise<ListResult<T>> {
+    const items: T[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await request(page);
+      items.push(...response.data);
+      const hasNextPage = response.headers.link?.includes('rel="next"') ?? false;
+
+      if (maxItems !== undefined && items.length >= maxItems) {
+        return {
+          items: items.slice(0, maxItems),
+          truncated: hasNextPage || items.length > maxItems
+        };
+      }
+      if (!hasNextPage || response.data.length === 0) {
+        return { items, truncated: false };
+      }
+    }
+  }
+
+  /**
+   * List all conversation comments of a PR, shared by the CodeRabbit and question lookups
+   */
+  private async listIssueComments(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+  } & ListOptions) {
+    const prefix = this.pullKey(params.owner, params.repo, params.prNumber);
+    return this.paginate(page => this.cachedRequest(`${prefix}comments:${params.since ?? ''}:${page}`, headers =>
+      this.octokit.issues.listComments({
+        owner: params.owner,
+        repo: params.repo,
+        issue_number: params.prNumber,
+        since: params.since,
+        per_page: PAGE_SIZE,
+        page,
+        headers
+      })
+    ), params.maxItems);
+  }
+
   /**
    * Get CodeRabbit comments from a PR
    */
@@ -133,29 +410,29 @@ export class GitHubIntegration {
     owner: string;
     repo: string;
     prNumber: number;
-  }): Promise<CodeRabbitComment[]> {
+  } & ListOptions): Promise<ListResult<CodeRabbitComment>> {
     try {
       await this.checkRateLimit();
       
-      const comments = await this.octokit.issues.listComments({
-        owner: params.owner,
-        repo: params.repo,
-        issue_number: params.prNumber
-      });
+      const comments = await this.listIssueComments(params);
 
       // Filter for CodeRabbit comments (including bot variant)
-      const coderabbitComments = comments.data.filter(comment => {
+      const coderabbitComments = comments.items.filter(comment => {
         if (!comment.user?.login) return false;
         const username = comment.user.login.toLowerCase();
         return CODERABBIT_USERNAMES.includes(username);
       });
 
-      return coderabbitComments.map(comment => ({
-        id: comment.id,
-        body: comment.body || '',
-        created_at: comment.created_at,
-        html_url: comment.html_url || ''
-      }));
+      return {
+        items: coderabbitComments.map(comment => ({
+          id: comment.id,
+          body: comment.body || '',
+          created_at: comment.created_at,
+          updated_at: comment.updated_at,
+          html_url: comment.html_url || ''
+        })),
+        truncated: comments.truncated
+      };
     } catch (error) {
       console.error('Error getting comments:', error);
       throw error;
@@ -169,36 +446,734 @@ export class GitHubIntegration {
     owner: string;
     repo: string;
     prNumber: number;
-  }): Promise<CodeRabbitReview[]> {
+  } & ListOptions): Promise<ListResult<CodeRabbitReview>> {
     try {
       await this.checkRateLimit();
       
-      const reviews = await this.octokit.pulls.listReviews({
-        owner: params.owner,
-        repo: params.repo,
-        pull_number: params.prNumber
-      });
+      const prefix = this.pullKey(params.owner, params.repo, params.prNumber);
+      const reviews = await this.paginate(page => this.cachedRequest(`${prefix}reviews:${page}`, headers =>
+        this.octokit.pulls.listReviews({
+          owner: params.owner,
+          repo: params.repo,
+          pull_number: params.prNumber,
+          per_page: PAGE_SIZE,
+          page,
+          headers
+        })
+      ), params.maxItems);
+
+      // The reviews endpoint has no since parameter, so filter by submission time
+      const since = params.since ? new Date(params.since).getTime() : undefined;
 
       // Filter for CodeRabbit reviews (including bot variant)
-      const coderabbitReviews = reviews.data.filter(review => {
+      const coderabbitReviews = reviews.items.filter(review => {
         if (!review.user?.login) return false;
+        if (since !== undefined && review.submitted_at && new Date(review.submitted_at).getTime() < since) return false;
         const username = review.user.login.toLowerCase();
         return CODERABBIT_USERNAMES.includes(username);
       });
 
-      return coderabbitReviews.map(review => ({
-        id: review.id,
-        state: review.state || 'PENDING',
-        body: review.body || '',
-        submitted_at: review.submitted_at || null,
-        html_url: review.html_url || ''
-      }));
+      return {
+        items: coderabbitReviews.map(review => ({
+          id: review.id,
+          state: review.state || 'PENDING',
+          body: review.body || '',
+          submitted_at: review.submitted_at || null,
+          commit_id: review.commit_id || null,
+          html_url: review.html_url || ''
+        })),
+        truncated: reviews.truncated
+      };
     } catch (error) {
       console.error('Error getting reviews:', error);
       throw error;
     }
   }
 
+  /**
+   * Get CodeRabbit's line-anchored review comments with thread resolution state
+   */
+  async getCodeRabbitReviewComments(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+  } & ListOptions): Promise<ListResult<CodeRabbitReviewComment>> {
+    try {
+      await this.checkRateLimit();
+
+      const prefix = this.pullKey(params.owner, params.repo, params.prNumber);
+      const comments = await this.paginate(page => this.cachedRequest(`${prefix}review-comments:${params.since ?? ''}:${page}`, headers =>
+        this.octokit.pulls.listReviewComments({
+          owner: params.owner,
+          repo: params.repo,
+          pull_number: params.prNumber,
+          since: params.since,
+          per_page: PAGE_SIZE,
+          page,
+          headers
+        })
+      ), params.maxItems);
+
+      // Filter for CodeRabbit comments (including bot variant)
+      const coderabbitComments = comments.items.filter(comment => {
+        if (!comment.user?.login) return false;
+        const username = comment.user.login.toLowerCase();
+        return CODERABBIT_USERNAMES.includes(username);
+      });
+
+      const threads = await this.getReviewThreadStates(params);
+
+      return {
+        items: coderabbitComments.map(comment => {
+          const thread = threads.get(comment.id);
+          return {
+            id: comment.id,
+            review_id: comment.pull_request_review_id ?? null,
+            in_reply_to_id: comment.in_reply_to_id,
+            body: comment.body || '',
+            path: comment.path,
+            line: comment.line ?? comment.original_line ?? null,
+            start_line: comment.start_line ?? comment.original_start_line ?? null,
+            side: comment.side ?? null,
+            commit_id: comment.commit_id,
+            diff_hunk: comment.diff_hunk,
+            created_at: comment.created_at,
+            html_url: comment.html_url,
+            thread_id: thread?.id,
+            is_resolved: thread?.isResolved,
+            is_outdated: thread?.isOutdated
+          };
+        }),
+        truncated: comments.truncated
+      };
+    } catch (error) {
+      console.error('Error getting review comments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look up review thread IDs and resolution state via GraphQL, keyed by comment database ID
+   * Thread state is only available through GraphQL; failures degrade to an empty map
+   */
+  private async getReviewThreadStates(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+  }): Promise<Map<number, ReviewThreadState>> {
+    const states = new Map<number, ReviewThreadState>();
+
+    try {
+      let cursor: string | null = null;
+
+      do {
+        const result: ReviewThreadsQueryResult = await this.octokit.graphql<ReviewThreadsQueryResult>(
+          `query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+            repository(owner: $owner, name: $repo) {
+              pullRequest(number: $number) {
+                reviewThreads(first: 100, after: $cursor) {
+                  pageInfo { hasNextPage endCursor }
+                  nodes {
+                    id
+                    isResolved
+                    isOutdated
+                    comments(first: 100) { nodes { databaseId } }
+                  }
+                }
+              }
+            }
+          }`,
+          { owner: params.owner, repo: params.repo, number: params.prNumber, cursor }
+        );
+
+        const threads = result.repository.pullRequest?.reviewThreads;
+        for (const thread of threads?.nodes ?? []) {
+          for (const comment of thread.comments.nodes) {
+            states.set(comment.databaseId, { id: thread.id, isResolved: thread.isResolved, isOutdated: thread.isOutdated });
+          }
+        }
+
+        cursor = threads?.pageInfo.hasNextPage ? threads.pageInfo.endCursor : null;
+      } while (cursor);
+    } catch (error) {
+      console.warn('Could not load review thread state:', error);
+    }
+
+    return states;
+  }
+
+  /**
+   * Reply inside the thread of a review comment, keeping the context of the finding
+   * GitHub only accepts replies to the first comment of a thread, so replies to replies are redirected there.
+   */
+  async replyToReviewComment(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+    commentId: number;
+    body: string;
+    mentionCodeRabbit?: boolean;
+  }) {
+    try {
+      await this.checkRateLimit();
+
+      const { data: target } = await this.octokit.pulls.getReviewComment({
+        owner: params.owner,
+        repo: params.repo,
+        comment_id: params.commentId
+      });
+      if (!target.pull_request_url.endsWith(`/pulls/${params.prNumber}`)) {
+        throw new Error(`Review comment ${params.commentId} does not belong to PR #${params.prNumber}`);
+      }
+
+      const reply = await this.octokit.pulls.createReplyForReviewComment({
+        owner: params.owner,
+        repo: params.repo,
+        pull_number: params.prNumber,
+        comment_id: target.in_reply_to_id ?? target.id,
+        body: params.mentionCodeRabbit ? `@coderabbitai ${params.body}` : params.body
+      });
+
+      this.invalidatePullRequest(params.owner, params.repo, params.prNumber);
+
+      return {
+        commentId: reply.data.id,
+        inReplyToId: reply.data.in_reply_to_id ?? target.id,
+        path: target.path,
+        url: reply.data.html_url
+      };
+    } catch (error) {
+      console.error('Error replying to review comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve or unresolve the review thread containing a comment
+   * Threads can only be changed through GraphQL; an already matching thread is left as is.
+   */
+  async setReviewThreadResolved(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+    commentId: number;
+    resolved: boolean;
+  }) {
+    try {
+      await this.checkRateLimit();
+
+      const thread = (await this.getReviewThreadStates(params)).get(params.commentId);
+      if (!thread) {
+        throw new Error(`No review thread found for comment ${params.commentId} in PR #${params.prNumber}`);
+      }
+      if (thread.isResolved === params.resolved) {
+        return { threadId: thread.id, isResolved: thread.isResolved, changed: false };
+      }
+
+      const mutation = params.resolved ? 'resolveReviewThread' : 'unresolveReviewThread';
+      const result = await this.octokit.graphql<Record<string, { thread: { id: string; isResolved: boolean } }>>(
+        `mutation($threadId: ID!) {
+          ${mutation}(input: { threadId: $threadId }) {
+            thread { id isResolved }
+          }
+        }`,
+        { threadId: thread.id }
+      );
+
+      this.invalidatePullRequest(params.owner, params.repo, params.prNumber);
+
+      return { threadId: thread.id, isResolved: result[mutation].thread.isResolved, changed: true };
+    } catch (error) {
+      console.error('Error updating review thread:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get CodeRabbit's review rounds on a PR, one per reviewed head commit, with the findings of each
+   */
+  async getCodeRabbitReviewRounds(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+  }): Promise<ReviewRound[]> {
+    const [reviews, reviewComments] = await Promise.all([
+      this.getCodeRabbitReviews(params),
+      this.getCodeRabbitReviewComments(params)
+    ]);
+    return groupReviewRounds(reviews.items, reviewComments.items);
+  }
+
+  /**
+   * Get CodeRabbit's feedback on a PR parsed into structured findings and stats
+   */
+  async getCodeRabbitFindings(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+  } & ListOptions): Promise<StructuredReview & { truncated: boolean }> {
+    const [comments, reviews, reviewComments] = await Promise.all([
+      this.getCodeRabbitComments(params),
+      this.getCodeRabbitReviews(params),
+      this.getCodeRabbitReviewComments(params)
+    ]);
+
+    // Replies in a thread are conversation, not findings
+    const inlineComments = reviewComments.items
+      .filter(comment => !comment.in_reply_to_id)
+      .map(comment => ({
+        id: comment.id,
+        body: comment.body,
+        created_at: comment.created_at,
+        path: comment.path,
+        line: comment.line,
+        startLine: comment.start_line,
+        diffHunk: comment.diff_hunk
+      }));
+
+    const review = buildStructuredReview({
+      repository: `${params.owner}/${params.repo}`,
+      prNumber: params.prNumber,
+      comments: comments.items,
+      reviews: reviews.items,
+      inlineComments,
+      url: `https://github.com/${params.owner}/${params.repo}/pull/${params.prNumber}`
+    });
+
+    return {
+      ...review,
+      truncated: comments.truncated || reviews.truncated || reviewComments.truncated
+    };
+  }
+
+  /**
+   * Fingerprint of CodeRabbit's comments and reviews on a PR
+   * Changes whenever CodeRabbit posts, edits or submits something; cheap to poll thanks to ETags
+   */
+  async getCodeRabbitActivity(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+  }): Promise<string> {
+    const [comments, reviews] = await Promise.all([
+      this.getCodeRabbitComments(params),
+      this.getCodeRabbitReviews(params)
+    ]);
+
+    const parts = [
+      ...comments.items.map(comment => `c${comment.id}@${comment.updated_at}`),
+      ...reviews.items.map(review => `r${review.id}@${review.submitted_at ?? ''}`)
+    ];
+    return createHash('sha1').update(parts.join('\n')).digest('hex');
+  }
+
+  /**
+   * Get CodeRabbit's check run or commit status on a commit, if it reports one
+   */
+  private async getCodeRabbitCheckStatus(owner: string, repo: string, sha: string): Promise<string | undefined> {
+    try {
+      const checks = await this.cachedRequest(`${owner}/${repo}@${sha}:checks`, headers =>
+        this.octokit.checks.listForRef({ owner, repo, ref: sha, per_page: PAGE_SIZE, headers })
+      );
+      const checkRun = checks.data.check_runs.find(run =>
+        run.app?.slug === 'coderabbitai' || run.name.toLowerCase().includes('coderabbit')
+      );
+      if (checkRun) {
+        return checkRun.status === 'completed' ? checkRun.conclusion || 'completed' : checkRun.status;
+      }
+
+      const statuses = await this.octokit.repos.getCombinedStatusForRef({ owner, repo, ref: sha });
+      const status = statuses.data.statuses.find(item => item.context.toLowerCase().includes('coderabbit'));
+      return status?.state;
+    } catch (error) {
+      // Fine-grained tokens may lack checks/statuses permission; fall back to comments and reviews
+      console.error('Could not read CodeRabbit check status:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Determine whether CodeRabbit has reviewed the PR's current head commit
+   */
+  async getCodeRabbitReviewStatus(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+  }): Promise<CodeRabbitReviewStatus> {
+    await this.checkRateLimit();
+
+    const pr = await this.cachedRequest(`${this.pullKey(params.owner, params.repo, params.prNumber)}pull`, headers =>
+      this.octokit.pulls.get({
+        owner: params.owner,
+        repo: params.repo,
+        pull_number: params.prNumber,
+        headers
+      })
+    );
+    const headSha = pr.data.head.sha;
+
+    const [comments, reviews, checkStatus] = await Promise.all([
+      this.getCodeRabbitComments(params),
+      this.getCodeRabbitReviews(params),
+      this.getCodeRabbitCheckStatus(params.owner, params.repo, headSha)
+    ]);
+
+    const latestReview = reviews.items
+      .filter(review => review.submitted_at)
+      .sort((a, b) => new Date(b.submitted_at!).getTime() - new Date(a.submitted_at!).getTime())[0];
+    const reviewedSha = latestReview?.commit_id ?? undefined;
+
+    // CodeRabbit edits its summary comment in place, so the most recently updated marker wins
+    const markerComment = [...comments.items]
+      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+      .find(comment => detectReviewState(comment.body) !== null);
+    const markerState = markerComment ? detectReviewState(markerComment.body) : null;
+
+    const base = { headSha, reviewedSha, checkStatus };
+
+    if (checkStatus === 'queued' || checkStatus === 'in_progress' || checkStatus === 'pending' || markerState === 'in_progress') {
+      return { ...base, state: 'in_progress', detail: 'CodeRabbit is reviewing the latest changes' };
+    }
+    if (markerState === 'paused') {
+      return { ...base, state: 'paused', detail: 'Reviews are paused on this PR; comment "@coderabbitai resume" to continue' };
+    }
+    if (reviewedSha === headSha || (checkStatus !== undefined && ['success', 'completed', 'neutral'].includes(checkStatus))) {
+      return { ...base, state: 'completed' };
+    }
+    if (markerState === 'skipped') {
+      return { ...base, state: 'skipped', detail: 'CodeRabbit skipped the review (e.g. draft PR, ignored branch or path filters)' };
+    }
+    return { ...base, state: 'pending', detail: reviewedSha ? `Last review covered ${reviewedSha.slice(0, 7)}` : 'No CodeRabbit review yet' };
+  }
+
+  /**
+   * Show CodeRabbit's state for the open or recently closed PRs of a repository, or of all repositories of an owner
+   * PRs are found via the search API; one PR failing to load is reported in its row instead of failing the dashboard.
+   */
+  async getPullRequestDashboard(params: {
+    owner: string;
+    repo?: string; // Omit to cover all repositories of the owner
+    state: 'open' | 'closed';
+    closedSince?: string; // ISO timestamp; only for closed PRs
+    maxPullRequests: number;
+  }): Promise<{ entries: PullRequestDashboardEntry[]; totalCount: number }> {
+    try {
+      await this.checkRateLimit();
+
+      const query = [
+        'is:pr',
+        `is:${params.state}`,
+        // user: also matches organizations, while org: is rejected for personal accounts
+        params.repo ? `repo:${params.owner}/${params.repo}` : `user:${params.owner}`,
+        ...(params.state === 'closed' && params.closedSince ? [`closed:>=${params.closedSince}`] : [])
+      ].join(' ');
+      const { data } = await this.cachedRequest(`search:${query}:${params.maxPullRequests}`, headers =>
+        this.octokit.search.issuesAndPullRequests({ q: query, sort: 'updated', order: 'desc', per_page: params.maxPullRequests, headers })
+      );
+
+      const entries = await mapWithConcurrency(data.items, PULL_REQUEST_CONCURRENCY, async (item): Promise<PullRequestDashboardEntry> => {
+        const [owner, repo] = item.repository_url.split('/').slice(-2);
+        const entry: PullRequestDashboardEntry = {
+          repository: `${owner}/${repo}`,
+          number: item.number,
+          title: item.title,
+          author: item.user?.login,
+          url: item.html_url,
+          draft: item.draft ?? false,
+          state: item.state === 'closed' ? 'closed' : 'open',
+          lastActivity: item.updated_at
+        };
+
+        try {
+          const pr = { owner, repo, prNumber: item.number };
+          const [status, reviewComments, comments] = await Promise.all([
+            this.getCodeRabbitReviewStatus(pr),
+            this.getCodeRabbitReviewComments(pr),
+            this.listIssueComments(pr)
+          ]);
+          const isCodeRabbit = (comment: { user?: { login: string } | null }) =>
+            CODERABBIT_USERNAMES.includes(comment.user?.login.toLowerCase() ?? '');
+          const toPosted = (comment: { id: number; body?: string; created_at: string }): PostedComment =>
+            ({ id: comment.id, body: comment.body ?? '', created_at: comment.created_at });
+
+          return {
+            ...entry,
+            reviewState: status.state,
+            headSha: status.headSha,
+            reviewedSha: status.reviewedSha,
+            reviewedLatest: status.reviewedSha === status.headSha || status.state === 'completed',
+            unresolved: countUnresolvedFindings(reviewComments.items),
+            pendingQuestions: countPendingQuestions(
+              comments.items.filter(comment => !isCodeRabbit(comment)).map(toPosted),
+              comments.items.filter(isCodeRabbit).map(toPosted)
+            )
+          };
+        } catch (error) {
+          return { ...entry, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+      });
+
+      return { entries, totalCount: data.total_count };
+    } catch (error) {
+      console.error('Error building pull request dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Collect the pull requests CodeRabbit reviewed in a period, most recently updated first, with their findings
+   * Candidates come from the search API; a PR counts when CodeRabbit's review activity ends within the period.
+   */
+  async getReviewHistory(params: {
+    owner: string;
+    repo: string;
+    limit: number;
+    since?: string;
+    until?: string;
+  }): Promise<{ reviews: ReviewHistoryEntry[]; truncated: boolean; failed: number[] }> {
+    try {
+      await this.checkRateLimit();
+
+      const since = params.since ? Date.parse(params.since) : -Infinity;
+      const until = params.until ? Date.parse(params.until) : Infinity;
+      // A PR reviewed in the period was updated in it or later
+      const query = ['is:pr', `repo:${params.owner}/${params.repo}`, ...(params.since ? [`updated:>=${params.since}`] : [])].join(' ');
+
+      const reviews: ReviewHistoryEntry[] = [];
+      const failed: number[] = [];
+      let candidates: Array<{ number: number; title: string }> = [];
+      let page = 1;
+      let exhausted = false;
+
+      while (reviews.length < params.limit) {
+        if (candidates.length === 0) {
+          if (exhausted) break;
+          const currentPage = page++;
+          const { data } = await this.cachedRequest(`search:${query}:${currentPage}`, headers =>
+            this.octokit.search.issuesAndPullRequests({ q: query, sort: 'updated', order: 'desc', per_page: PAGE_SIZE, page: currentPage, headers })
+          );
+          candidates = data.items;
+          exhausted = data.items.length < PAGE_SIZE || currentPage * PAGE_SIZE >= Math.min(data.total_count, SEARCH_RESULT_LIMIT);
+          if (candidates.length === 0) break;
+        }
+
+        // Load no more PRs than still needed, but keep all workers busy
+        const batch = candidates.splice(0, Math.max(params.limit - reviews.length, PULL_REQUEST_CONCURRENCY));
+        const loaded = await mapWithConcurrency(batch, PULL_REQUEST_CONCURRENCY, async (item): Promise<ReviewHistoryEntry | null> => {
+          try {
+            const { truncated: _truncated, ...review } = await this.getCodeRabbitFindings({ owner: params.owner, repo: params.repo, prNumber: item.number });
+            const reviewedAt = (review.completedAt ?? review.createdAt).getTime();
+            const reviewed = review.status === 'completed' && (review.summary !== undefined || review.issues.length > 0);
+            return reviewed && reviewedAt >= since && reviewedAt <= until ? { ...review, title: item.title } : null;
+          } catch (error) {
+            console.warn(`Could not load CodeRabbit review of PR #${item.number}:`, error);
+            failed.push(item.number);
+            return null;
+          }
+        });
+        reviews.push(...loaded.filter((review): review is ReviewHistoryEntry => review !== null));
+      }
+
+      return {
+        reviews: reviews.slice(0, params.limit),
+        truncated: reviews.length > params.limit || (reviews.length === params.limit && (candidates.length > 0 || !exhausted)),
+        failed
+      };
+    } catch (error) {
+      console.error('Error getting review history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Poll a PR with backoff until CodeRabbit's review of the latest head SHA is done
+   * Returns early for skipped or paused reviews; returns the last status when the timeout elapses
+   */
+  async waitForCodeRabbitReview(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+    timeoutMs: number;
+    pollIntervalMs: number;
+    signal?: AbortSignal;
+    onProgress?: (status: CodeRabbitReviewStatus, elapsedMs: number) => Promise<void> | void;
+  }): Promise<{ status: CodeRabbitReviewStatus; timedOut: boolean; elapsedMs: number; findings?: StructuredReview & { truncated: boolean } }> {
+    const startTime = Date.now();
+    let interval = params.pollIntervalMs;
+
+    while (true) {
+      const status = await this.getCodeRabbitReviewStatus(params);
+      const elapsedMs = Date.now() - startTime;
+      await params.onProgress?.(status, elapsedMs);
+
+      if (status.state === 'completed') {
+        const findings = await this.getCodeRabbitFindings(params);
+        return { status, timedOut: false, elapsedMs, findings };
+      }
+      if (status.state === 'skipped' || status.state === 'paused') {
+        return { status, timedOut: false, elapsedMs };
+      }
+
+      const remaining = params.timeoutMs - elapsedMs;
+      if (remaining <= 0) {
+        return { status, timedOut: true, elapsedMs };
+      }
+
+      await this.sleep(Math.min(interval, remaining), params.signal);
+      interval = Math.min(interval * POLL_BACKOFF_FACTOR, MAX_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Poll a PR until CodeRabbit replies to a posted comment (or the timeout elapses)
+   * A timeout of 0 checks once. Edits of older CodeRabbit comments are never taken as the reply.
+   */
+  async waitForCodeRabbitReply(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+    question: PostedComment;
+    timeoutMs: number;
+    pollIntervalMs: number;
+    signal?: AbortSignal;
+    onProgress?: (elapsedMs: number) => Promise<void> | void;
+  }): Promise<{ reply?: CodeRabbitComment; timedOut: boolean; elapsedMs: number }> {
+    const startTime = Date.now();
+    let interval = params.pollIntervalMs;
+
+    while (true) {
+      const { items } = await this.getCodeRabbitComments({
+        owner: params.owner,
+        repo: params.repo,
+        prNumber: params.prNumber,
+        since: params.question.created_at
+      });
+      const reply = findCodeRabbitReply(params.question, items);
+      const elapsedMs = Date.now() - startTime;
+      if (reply) {
+        return { reply, timedOut: false, elapsedMs };
+      }
+      await params.onProgress?.(elapsedMs);
+
+      const remaining = params.timeoutMs - elapsedMs;
+      if (remaining <= 0) {
+        return { timedOut: true, elapsedMs };
+      }
+
+      await this.sleep(Math.min(interval, remaining), params.signal);
+      interval = Math.min(interval * POLL_BACKOFF_FACTOR, MAX_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Get a conversation comment of a PR, e.g. a question posted earlier by askCodeRabbit
+   */
+  async getPullRequestComment(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+    commentId: number;
+  }): Promise<PostedComment & { html_url: string }> {
+    await this.checkRateLimit();
+
+    const { data } = await this.cachedRequest(`${this.pullKey(params.owner, params.repo, params.prNumber)}comment:${params.commentId}`, headers =>
+      this.octokit.issues.getComment({ owner: params.owner, repo: params.repo, comment_id: params.commentId, headers })
+    );
+    if (!data.issue_url.endsWith(`/issues/${params.prNumber}`)) {
+      throw new Error(`Comment ${params.commentId} does not belong to PR #${params.prNumber}`);
+    }
+    return { id: data.id, body: data.body ?? '', created_at: data.created_at, html_url: data.html_url };
+  }
+
+  /**
+   * Wait for the given time, rejecting early if the signal is aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Operation cancelled'));
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Operation cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Apply CodeRabbit's code suggestions from a PR to the local working tree
+   * Each suggestion is verified against the current file content; mismatches are reported as conflicts
+   */
+  async applyCodeRabbitSuggestions(params: {
+    owner: string;
+    repo: string;
+    prNumber: number;
+    ids?: string[];
+    files?: string[];
+    severities?: CodeRabbitIssue['severity'][];
+    dryRun?: boolean;
+  }): Promise<{ outcomes: SuggestionOutcome[]; diff: string; filesChanged: string[] }> {
+    const review = await this.getCodeRabbitFindings(params);
+
+    const selected = review.issues.filter(issue =>
+      (params.ids?.length ? params.ids.includes(issue.id) : issue.fix !== undefined) &&
+      (!params.files?.length || params.files.includes(issue.file)) &&
+      (!params.severities?.length || params.severities.includes(issue.severity))
+    );
+
+    const root = (await this.git.revparse(['--show-toplevel'])).trim();
+    const byFile = new Map<string, CodeRabbitIssue[]>();
+    for (const issue of selected) {
+      byFile.set(issue.file, [...(byFile.get(issue.file) ?? []), issue]);
+    }
+
+    const outcomes: SuggestionOutcome[] = [];
+    const filesChanged: string[] = [];
+    let diff = '';
+
+    for (const [file, issues] of byFile) {
+      const filePath = path.resolve(root, file);
+      if (!filePath.startsWith(root + path.sep)) {
+        outcomes.push(...issues.map(issue => ({ issueId: issue.id, file, status: 'skipped' as const, reason: 'Path is outside the repository' })));
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch {
+        outcomes.push(...issues.map(issue => ({ issueId: issue.id, file, status: 'conflict' as const, reason: 'File not found in working tree' })));
+        continue;
+      }
+
+      const plan = planSuggestions(file, content, issues);
+      outcomes.push(...plan.outcomes);
+      if (plan.edits.length === 0) continue;
+
+      diff += createUnifiedDiff(file, content, plan.edits);
+      filesChanged.push(file);
+
+      if (!params.dryRun) {
+        await fs.writeFile(filePath, applyEdits(content, plan.edits), 'utf-8');
+      }
+    }
+
+    // Report requested IDs that matched no finding
+    for (const id of params.ids ?? []) {
+      if (!selected.some(issue => issue.id === id)) {
+        outcomes.push({ issueId: id, file: '', status: 'skipped', reason: 'No finding with this ID (or filtered out)' });
+      }
+    }
+
+    return { outcomes, diff, filesChanged };
+  }
+
   /**
    * Interact with CodeRabbit via PR comments
    */
@@ -219,8 +1194,11 @@ export class GitHubIntegration {
         body: `@coderabbitai ${params.question}`
       });
 
+      this.invalidatePullRequest(params.owner, params.repo, params.prNumber);
+
       return {
         commentId: comment.data.id,
+        comment: { id: comment.data.id, body: comment.data.body ?? '', created_at: comment.data.created_at },
         url: comment.data.html_url,
         message: 'Question posted. CodeRabbit will respond in the PR.'
       };
@@ -240,9 +1218,15 @@ export class GitHubIntegration {
     branch: string;
     title: string;
     description?: string;
+    base?: string; // Optional: target branch, defaults to the repository's default branch
     files?: string[]; // Optional: specific files to add
     includeUntracked?: boolean; // Optional: include all untracked files
-  }) {
+    isolated?: boolean; // Optional: work in a temporary worktree, leaving the checkout untouched
+  }): Promise<{ number: number; url: string; state: string; branch: string; base: string; commitSha: string }> {
+    if (params.isolated) {
+      return this.pushChangesFromWorktree(params);
+    }
+
     // Store original branch for rollback
     const originalBranch = await this.git.revparse(['--abbrev-ref', 'HEAD']);
     
@@ -258,6 +1242,8 @@ export class GitHubIntegration {
       if (branches.all.includes(params.branch)) {
         throw new Error(`Branch ${params.branch} already exists locally. Please use a different branch name.`);
       }
+
+      const base = params.base || await this.getDefaultBranch(params.owner, params.repo);
       
       // Create and checkout new branch
       await this.git.checkoutLocalBranch(params.branch);
@@ -269,7 +1255,7 @@ export class GitHubIntegration {
       } else if (params.includeUntracked) {
         // Add all changes including untracked files
         await this.git.add(['-A']);
-        console.log('Added all changes including untracked files.');
+        console.warn('Added all changes including untracked files.');
       } else {
         // Add only tracked files that have been modified
         await this.git.add(['-u']); // Updates tracked files only
@@ -284,8 +1270,12 @@ export class GitHubIntegration {
         }
       }
       
-      // Commit changes
-      await this.git.commit(`feat: ${params.title}`);
+      // Commit staged changes; with nothing staged the branch carries the existing local commits
+      const staged = await this.git.status();
+      if (staged.staged.length > 0) {
+        await this.git.commit(this.getCommitMessage(params.title));
+      }
+      const commitSha = (await this.git.revparse(['HEAD'])).trim();
       
       // Push to GitHub with set-upstream (with force-push protection)
       await this.git.push(['--set-upstream', 'origin', params.branch, '--no-force']);
@@ -296,11 +1286,11 @@ export class GitHubIntegration {
         repo: params.repo,
         title: params.title,
         head: params.branch,
-        base: 'main',
+        base,
         body: params.description
       });
 
-      return pr;
+      return { ...pr, branch: params.branch, base, commitSha };
     } catch (error) {
       // Attempt to restore original branch on error
       try {
@@ -320,4 +1310,317 @@ export class GitHubIntegration {
       throw error;
     }
   }
+
+  /**
+   * Push changes from a temporary git worktree so the user's branch, index and files stay untouched
+   * Uncommitted changes of the selected files are copied into the worktree and committed there
+   */
+  private async pushChangesFromWorktree(params: {
+    owner: string;
+    repo: string;
+    branch: string;
+    title: string;
+    description?: string;
+    base?: string;
+    files?: string[];
+    includeUntracked?: boolean;
+  }): Promise<{ number: number; url: string; state: string; branch: string; base: string; commitSha: string }> {
+    const root = (await this.git.revparse(['--show-toplevel'])).trim();
+    const branches = await this.git.branchLocal();
+    if (branches.all.includes(params.branch)) {
+      throw new Error(`Branch ${params.branch} already exists locally. Please use a different branch name.`);
+    }
+
+    const base = params.base || await this.getDefaultBranch(params.owner, params.repo);
+    const status = await this.git.status();
+    const filesToCopy = this.selectFilesToStage(status, params);
+
+    const worktreeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'coderabbit-pr-'));
+    let worktreeCreated = false;
+    let pushed = false;
+
+    try {
+      // Detached worktree at the current commit: no local branch is created
+      await this.git.raw(['worktree', 'add', '--detach', worktreeDir, 'HEAD']);
+      worktreeCreated = true;
+      const worktreeGit = simpleGit(worktreeDir);
+
+      for (const file of filesToCopy) {
+        const source = path.resolve(root, file);
+        const target = path.resolve(worktreeDir, file);
+        if (!source.startsWith(root + path.sep)) {
+          throw new Error(`File ${file} is outside the repository`);
+        }
+
+        try {
+          await fs.mkdir(path.dirname(target), { recursive: true });
+          await fs.copyFile(source, target);
+        } catch (copyError) {
+          // Deleted in the working copy: mirror the deletion
+          if ((copyError as NodeJS.ErrnoException).code !== 'ENOENT') throw copyError;
+          await fs.rm(target, { force: true });
+        }
+      }
+
+      if (filesToCopy.length > 0) {
+        await worktreeGit.add(['-A', '--', ...filesToCopy]);
+      }
+      const staged = await worktreeGit.status();
+      if (staged.staged.length > 0 || staged.deleted.length > 0) {
+        await worktreeGit.commit(this.getCommitMessage(params.title));
+      }
+      const commitSha = (await worktreeGit.revparse(['HEAD'])).trim();
+
+      await worktreeGit.push(['origin', `HEAD:refs/heads/${params.branch}`, '--no-force']);
+      pushed = true;
+
+      const pr = await this.createPullRequest({
+        owner: params.owner,
+        repo: params.repo,
+        title: params.title,
+        head: params.branch,
+        base,
+        body: params.description
+      });
+
+      return { ...pr, branch: params.branch, base, commitSha };
+    } catch (error) {
+      if (pushed) {
+        try {
+          await this.git.push(['origin', '--delete', params.branch]);
+        } catch (rollbackError) {
+          console.error(`Failed to delete remote branch ${params.branch}:`, rollbackError);
+        }
+      }
+
+      console.error('Error in isolated push and create PR:', error);
+      throw error;
+    } finally {
+      try {
+        if (worktreeCreated) {
+          await this.git.raw(['worktree', 'remove', '--force', worktreeDir]);
+        }
+      } catch (cleanupError) {
+        console.error('Failed to remove worktree:', cleanupError);
+      }
+      await fs.rm(worktreeDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Work out which changed files would be staged for the given selection
+   * Renames list only their new path, so the old path is added to carry the removal.
+   */
+  private selectFilesToStage(
+    status: Awaited<ReturnType<SimpleGit['status']>>,
+    params: { files?: string[]; includeUntracked?: boolean }
+  ): string[] {
+    let selected: string[];
+    if (params.files && params.files.length > 0) {
+      selected = params.files;
+    } else if (params.includeUntracked) {
+      selected = status.files.map(file => file.path);
+    } else {
+      selected = status.files.map(file => file.path).filter(file => !status.not_added.includes(file));
+    }
+
+    const renamedFrom = status.renamed
+      .filter(rename => selected.includes(rename.to) && !selected.includes(rename.from))
+      .map(rename => rename.from);
+    return [...selected, ...renamedFrom];
+  }
+
+  /**
+   * Preview what pushChangesAndCreatePR would do without touching the repository
+   */
+  async previewPushChangesAndCreatePR(params: {
+    owner: string;
+    repo: string;
+    branch: string;
+    title: string;
+    base?: string;
+    files?: string[];
+    includeUntracked?: boolean;
+    isolated?: boolean;
+  }): Promise<{
+    currentBranch: string;
+    branch: string;
+    base: string;
+    commitMessage: string;
+    filesToStage: string[];
+    untrackedExcluded: string[];
+    commitsAhead: string[];
+    blockers: string[];
+  }> {
+    const currentBranch = (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const status = await this.git.status();
+    const branches = await this.git.branchLocal();
+    const base = params.base || await this.getDefaultBranch(params.owner, params.repo);
+    const blockers: string[] = [];
+
+    // Isolated mode carries uncommitted changes over, so a dirty tree is fine there
+    if (!params.isolated && !status.isClean()) {
+      blockers.push('Repository has uncommitted changes. Please commit or stash them first, or use isolated mode.');
+    }
+    if (branches.all.includes(params.branch)) {
+      blockers.push(`Branch ${params.branch} already exists locally. Please use a different branch name.`);
+    }
+
+    const untracked = status.not_added;
+    const filesToStage = this.selectFilesToStage(status, params);
+
+    let commitsAhead: string[] = [];
+    try {
+      const log = await this.git.log({ from: `origin/${base}`, to: 'HEAD' });
+      commitsAhead = log.all.map(commit => `${commit.hash.slice(0, 7)} ${commit.message}`);
+    } catch (error) {
+      console.error(`Could not compare with origin/${base}:`, error);
+    }
+
+    return {
+      currentBranch,
+      branch: params.branch,
+      base,
+      commitMessage: this.getCommitMessage(params.title),
+      filesToStage,
+      untrackedExcluded: params.files?.length || params.includeUntracked ? [] : untracked,
+      commitsAhead,
+      blockers
+    };
+  }
+
+  /**
+   * Summarize the current branch's changes against a base branch
+   * Compares with origin/<base> and includes a diff capped at maxDiffChars
+   */
+  async getBranchChanges(params: {
+    owner: string;
+    repo: string;
+    base?: string;
+    maxDiffChars?: number;
+  }): Promise<{
+    currentBranch: string;
+    base: string;
+    commits: string[];
+    diffStat: string;
+    diff: string;
+    diffTruncated: boolean;
+  }> {
+    const currentBranch = (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const base = params.base || await this.getDefaultBranch(params.owner, params.repo);
+    const range = `origin/${base}...HEAD`;
+    const maxDiffChars = params.maxDiffChars ?? MAX_BRANCH_DIFF_CHARS;
+
+    const log = await this.git.log({ from: `origin/${base}`, to: 'HEAD' });
+    const diffStat = await this.git.diff(['--stat', range]);
+    const diff = await this.git.diff([range]);
+
+    return {
+      currentBranch,
+      base,
+      commits: log.all.map(commit => `${commit.hash.slice(0, 7)} ${commit.message}`),
+      diffStat: diffStat.trim(),
+      diff: diff.slice(0, maxDiffChars),
+      diffTruncated: diff.length > maxDiffChars
+    };
+  }
+
+  /**
+   * Build the commit message used for PR branches
+   */
+  private getCommitMessage(title: string): string {
+    return `feat: ${title}`;
+  }
+
+  /**
+   * Get a file's content from a repository, or null when it does not exist
+   */
+  async getFileContent(params: {
+    owner: string;
+    repo: string;
+    path: string;
+    ref?: string; // Defaults to the repository's default branch
+  }): Promise<{ content: string; sha: string } | null> {
+    await this.checkRateLimit();
+
+    try {
+      const { data } = await this.cachedRequest(`${params.owner}/${params.repo}:contents:${params.ref ?? ''}:${params.path}`, headers =>
+        this.octokit.repos.getContent({ owner: params.owner, repo: params.repo, path: params.path, ref: params.ref, headers })
+      );
+      if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+        throw new Error(`${params.path} is not a file`);
+      }
+      return { content: Buffer.from(data.content, 'base64').toString('utf-8'), sha: data.sha };
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Commit a single file to a new branch and open a pull request for it
+   * Uses the GitHub contents API, so the local checkout is not touched.
+   */
+  async createFileChangePR(params: {
+    owner: string;
+    repo: string;
+    path: string;
+    content: string;
+    sha?: string; // Blob SHA of the file on the base branch when it already exists
+    branch: string;
+    base?: string; // Defaults to the repository's default branch
+    title: string;
+    body?: string;
+  }): Promise<{ number: number; url: string; branch: string; base: string }> {
+    await this.checkRateLimit();
+
+    const base = params.base ?? await this.getDefaultBranch(params.owner, params.repo);
+    const { data: baseRef } = await this.octokit.git.getRef({ owner: params.owner, repo: params.repo, ref: `heads/${base}` });
+    await this.octokit.git.createRef({
+      owner: params.owner,
+      repo: params.repo,
+      ref: `refs/heads/${params.branch}`,
+      sha: baseRef.object.sha
+    });
+
+    try {
+      await this.octokit.repos.createOrUpdateFileContents({
+        owner: params.owner,
+        repo: params.repo,
+        path: params.path,
+        branch: params.branch,
+        message: params.title,
+        content: Buffer.from(params.content, 'utf-8').toString('base64'),
+        sha: params.sha
+      });
+      const pr = await this.createPullRequest({
+        owner: params.owner,
+        repo: params.repo,
+        title: params.title,
+        head: params.branch,
+        base,
+        body: params.body
+      });
+      return { number: pr.number, url: pr.url, branch: params.branch, base };
+    } catch (error) {
+      // Do not leave an orphaned branch behind
+      await this.octokit.git.deleteRef({ owner: params.owner, repo: params.repo, ref: `heads/${params.branch}` }).catch(cleanupError => {
+        console.error(`Failed to delete branch ${params.branch}:`, cleanupError);
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the repository's default branch from GitHub
+   */
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    await this.checkRateLimit();
+    const { data } = await this.cachedRequest(`${owner}/${repo}:repo`, headers =>
+      this.octokit.repos.get({ owner, repo, headers })
+    );
+    return data.default_branch;
+  }
 }
\ No newline at end of file
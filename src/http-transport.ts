@@ -0,0 +1,216 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Endpoint serving the Streamable HTTP transport
+export const MCP_HTTP_PATH = '/mcp';
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Sessions without any request for this long are closed
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string; // Required bearer token; mandatory when binding to a non-loopback address
+}
+
+export interface HttpServerHandle {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+}
+
+/**
+ * Compare bearer tokens in constant time
+ */
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  // Hash both sides so the comparison does not leak the token length
+  const expected = createHash('sha256').update(authToken).digest();
+  const actual = createHash('sha256').update(match[1].trim()).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Serve MCP over Streamable HTTP
+ * Each client session gets its own McpServer from the factory; clients, caches and
+ * the GitHub token captured by the factory are shared between sessions.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const loopback = LOOPBACK_HOSTS.includes(options.host);
+  if (!loopback && !options.authToken) {
+    throw new Error(`An auth token is required to listen on ${options.host}; set MCP_AUTH_TOKEN or bind to 127.0.0.1`);
+  }
+
+  const sessions = new Map<string, Session>();
+  let allowedHosts: string[] = [];
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(error => console.error(`Error closing session ${sessionId}:`, error));
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_HTTP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' });
+      res.end();
+      return;
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : 'invalid body'}`);
+        return;
+      }
+
+      if (session) {
+        session.lastSeen = Date.now();
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      // New session: one transport and server per client
+      const server = createMcpServer();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          sessions.set(id, { transport, server, lastSeen: Date.now() });
+        },
+        enableDnsRebindingProtection: loopback,
+        allowedHosts
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+
+      // A rejected initialize leaves no session to reuse or sweep, so release it now
+      if (!transport.sessionId) {
+        await server.close().catch(error => console.error('Error closing uninitialized session:', error));
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!session) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  // DNS rebinding protection for local servers: only accept our own Host header
+  allowedHosts = [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+
+  const idleSweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) void closeSession(id);
+    }
+  }, 60000);
+  idleSweep.unref();
+
+  const displayHost = options.host.includes(':') ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${displayHost}:${port}${MCP_HTTP_PATH}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(idleSweep);
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+}
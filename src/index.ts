@@ -13,5 +13,23 @@
 
 export { CodeRabbitClient } from './coderabbit-client.js';
 export { GitHubIntegration } from './github-integration.js';
+export { parseGitRemoteUrl } from './git-remote.js';
+export * from './local-diff.js';
 export { startServer } from './server.js';
+export type { ServerOptions } from './server.js';
+export { registerPrompts } from './prompts.js';
+export * from './report-jobs.js';
+export * from './report-format.js';
+export * from './report-chunks.js';
+export * from './coderabbit-config.js';
+export * from './coderabbit-commands.js';
+export * from './pr-dashboard.js';
+export * from './review-history.js';
+export * from './review-rounds.js';
+export { startHttpServer } from './http-transport.js';
+export type { HttpServerOptions, HttpServerHandle } from './http-transport.js';
+export * from './review-parser.js';
+export { registerResources, pullResourceUri, reportResourceUri, parsePullResourceUri, PullRequestWatcher } from './resources.js';
+export { SimpleCache } from './cache.js';
+export * from './cache-storage.js';
 export * from './types.js';
\ No newline at end of file
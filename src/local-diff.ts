@@ -0,0 +1,199 @@
+import { SimpleGit } from 'simple-git';
+
+export type LocalDiffKind = 'staged' | 'unstaged' | 'branch';
+
+export interface LocalDiffFile {
+  path: string;
+  oldPath?: string; // Set for renames
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  large: boolean; // Diff exceeds the per-file limit and is omitted
+  diff?: string; // Omitted for binary and large files
+}
+
+export interface LocalDiffSkippedFile {
+  kind: LocalDiffKind;
+  path: string;
+  oldPath?: string; // Set for renames and copies
+  status: string; // Status letter from git diff --name-status, e.g. M, A, D or R
+}
+
+export interface LocalDiffSection {
+  kind: LocalDiffKind;
+  range: string; // Human-readable description of what is compared
+  files: LocalDiffFile[];
+}
+
+export interface LocalDiff {
+  branch: string;
+  base?: string; // Only resolved when the branch diff is requested
+  sections: LocalDiffSection[];
+  untracked: string[]; // Not part of any diff until added
+  skipped: LocalDiffSkippedFile[]; // Not diffed because the total limit was reached
+  totalChars: number;
+  truncated: boolean; // Some diffs were omitted to stay within the total limit
+}
+
+export interface LocalDiffOptions {
+  base?: string; // Defaults to the remote default branch
+  include?: LocalDiffKind[];
+  paths?: string[]; // Paths or globs (** matches any depth)
+  maxFileChars?: number;
+  maxTotalChars?: number;
+}
+
+const DEFAULT_MAX_FILE_CHARS = 20000;
+const DEFAULT_MAX_TOTAL_CHARS = 100000;
+
+// Tried in order when no base is given and origin/HEAD is not set
+const FALLBACK_BASES = ['origin/main', 'origin/master', 'main', 'master'];
+
+/**
+ * Resolve the ref the current branch is compared against
+ * Without an explicit base, uses the remote default branch rather than guessing from history.
+ */
+export async function resolveBaseRef(git: SimpleGit, base?: string): Promise<string> {
+  const exists = async (ref: string) => {
+    try {
+      return (await git.revparse(['--verify', `${ref}^{commit}`])).trim() !== '';
+    } catch {
+      return false;
+    }
+  };
+
+  if (base) {
+    if (!(await exists(base))) {
+      throw new Error(`Base ref ${base} does not exist (fetch it first or pass another base)`);
+    }
+    return base;
+  }
+
+  try {
+    const remoteHead = (await git.raw(['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'])).trim();
+    if (remoteHead) return remoteHead;
+  } catch {
+    // origin/HEAD is not set, e.g. in repositories created with git init
+  }
+  for (const candidate of FALLBACK_BASES) {
+    if (await exists(candidate)) return candidate;
+  }
+  throw new Error('Cannot determine the base branch; pass base explicitly');
+}
+
+/**
+ * Parse `git diff --numstat -z` output
+ * Binary files report "-" for both counts; renames put the old and new path in separate fields.
+ */
+export function parseNumstat(output: string): Array<Pick<LocalDiffFile, 'path' | 'oldPath' | 'additions' | 'deletions' | 'binary'>> {
+  const fields = output.split('\0');
+  const files = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const match = fields[i].match(/^(-|\d+)\t(-|\d+)\t(.*)$/s);
+    if (!match) continue;
+
+    const binary = match[1] === '-' && match[2] === '-';
+    let filePath = match[3];
+    let oldPath: string | undefined;
+    if (filePath === '') {
+      oldPath = fields[++i];
+      filePath = fields[++i];
+    }
+    files.push({
+      path: filePath,
+      ...(oldPath !== undefined && { oldPath }),
+      additions: binary ? 0 : parseInt(match[1], 10),
+      deletions: binary ? 0 : parseInt(match[2], 10),
+      binary
+    });
+  }
+  return files;
+}
+
+/**
+ * Parse `git diff --name-status -z` output
+ * Renames and copies carry a similarity score and put the old and new path in separate fields.
+ */
+export function parseNameStatus(output: string): Array<Pick<LocalDiffSkippedFile, 'path' | 'oldPath' | 'status'>> {
+  const fields = output.split('\0');
+  const files = [];
+
+  for (let i = 0; i < fields.length - 1; i++) {
+    const status = fields[i].charAt(0);
+    if (!status) continue;
+
+    if (status === 'R' || status === 'C') {
+      files.push({ path: fields[i + 2], oldPath: fields[i + 1], status });
+      i += 2;
+    } else {
+      files.push({ path: fields[i + 1], status });
+      i += 1;
+    }
+  }
+  return files;
+}
+
+function toPathspecs(paths?: string[]): string[] {
+  return paths?.length ? ['--', ...paths.map(p => `:(glob)${p}`)] : [];
+}
+
+/**
+ * Collect staged, unstaged and branch-vs-base changes with per-file stats
+ * Diffs of binary files and files over maxFileChars are left out. Once maxTotalChars is reached,
+ * the remaining files are only listed by name in skipped.
+ */
+export async function collectLocalDiff(git: SimpleGit, options: LocalDiffOptions = {}): Promise<LocalDiff> {
+  const include = options.include ?? ['staged', 'unstaged', 'branch'];
+  const maxFileChars = options.maxFileChars ?? DEFAULT_MAX_FILE_CHARS;
+  const maxTotalChars = options.maxTotalChars ?? DEFAULT_MAX_TOTAL_CHARS;
+  const pathspecs = toPathspecs(options.paths);
+
+  const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+  const base = include.includes('branch') ? await resolveBaseRef(git, options.base) : undefined;
+
+  const ranges: Array<{ kind: LocalDiffKind; range: string; args: string[] }> = [];
+  if (include.includes('staged')) ranges.push({ kind: 'staged', range: 'index vs HEAD', args: ['--cached'] });
+  if (include.includes('unstaged')) ranges.push({ kind: 'unstaged', range: 'working tree vs index', args: [] });
+  if (base) ranges.push({ kind: 'branch', range: `${base}...HEAD`, args: [`${base}...HEAD`] });
+
+  const sections: LocalDiffSection[] = [];
+  const skipped: LocalDiffSkippedFile[] = [];
+  let totalChars = 0;
+  let truncated = false;
+
+  for (const { kind, range, args } of ranges) {
+    const files: LocalDiffFile[] = [];
+
+    if (!truncated) {
+      const stats = parseNumstat(await git.diff([...args, '--numstat', '-z', ...pathspecs]));
+      for (const stat of stats) {
+        const file: LocalDiffFile = { ...stat, large: false };
+        if (!file.binary) {
+          const diff = await git.diff([...args, '--', ...(file.oldPath ? [file.oldPath] : []), file.path]);
+          if (diff.length > maxFileChars) {
+            file.large = true;
+          } else if (totalChars + diff.length > maxTotalChars) {
+            truncated = true;
+            break;
+          } else {
+            file.diff = diff;
+            totalChars += diff.length;
+          }
+        }
+        files.push(file);
+      }
+      sections.push({ kind, range, files });
+    }
+
+    if (truncated) {
+      // Listing names is cheap; diffing every remaining file just to drop it is not
+      const listed = new Set(files.map(file => file.path));
+      const remaining = parseNameStatus(await git.diff([...args, '--name-status', '-z', ...pathspecs]));
+      skipped.push(...remaining.filter(file => !listed.has(file.path)).map(file => ({ kind, ...file })));
+    }
+  }
+
+  const status = await git.status(pathspecs);
+  return { branch, base, sections, untracked: status.not_added, skipped, totalChars, truncated };
+}
@@ -0,0 +1,112 @@
+import { CodeRabbitIssue } from './types.js';
+import { findCodeRabbitReply, PostedComment } from './coderabbit-commands.js';
+import { parseInlineComment, SEVERITY_ORDER } from './review-parser.js';
+
+export type SeverityCounts = Record<CodeRabbitIssue['severity'], number>;
+
+// One row of the dashboard; review fields are missing when loading the PR failed
+export interface PullRequestDashboardEntry {
+  repository: string; // owner/repo
+  number: number;
+  title: string;
+  author?: string;
+  url: string;
+  draft: boolean;
+  state: 'open' | 'closed';
+  lastActivity: string; // ISO timestamp of the last update to the PR
+  reviewState?: string;
+  headSha?: string;
+  reviewedSha?: string;
+  reviewedLatest?: boolean; // CodeRabbit's latest review covers the head commit
+  unresolved?: SeverityCounts;
+  pendingQuestions?: number;
+  error?: string;
+}
+
+// Line-level CodeRabbit comment with the state of its thread
+export interface ThreadedReviewComment {
+  body: string;
+  path: string;
+  line: number | null;
+  start_line: number | null;
+  in_reply_to_id?: number;
+  is_resolved?: boolean;
+}
+
+/**
+ * Count findings in unresolved CodeRabbit threads by severity
+ * Only thread starters are findings; threads of unknown state count as unresolved.
+ * Findings in review bodies (e.g. nitpicks) have no thread and are not counted.
+ */
+export function countUnresolvedFindings(comments: ThreadedReviewComment[]): SeverityCounts {
+  const counts = Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, 0])) as SeverityCounts;
+
+  for (const comment of comments) {
+    if (comment.in_reply_to_id || comment.is_resolved) continue;
+    const issue = parseInlineComment(comment.body, { path: comment.path, line: comment.line, startLine: comment.start_line });
+    if (issue) counts[issue.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * Count questions to CodeRabbit in the PR conversation that CodeRabbit has not answered
+ */
+export function countPendingQuestions(questions: PostedComment[], coderabbitComments: PostedComment[]): number {
+  return questions.filter(question =>
+    /@coderabbitai\b/i.test(question.body) && !findCodeRabbitReply(question, coderabbitComments)
+  ).length;
+}
+
+/**
+ * A PR is ready when CodeRabbit reviewed its head commit and nothing is left open
+ */
+export function isReadyToMerge(entry: PullRequestDashboardEntry): boolean {
+  return entry.state === 'open' &&
+    !entry.draft &&
+    entry.reviewedLatest === true &&
+    entry.pendingQuestions === 0 &&
+    entry.unresolved !== undefined &&
+    Object.values(entry.unresolved).every(count => count === 0);
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\|/g, '\\|');
+}
+
+function formatSeverityCounts(counts: SeverityCounts): string {
+  const parts = SEVERITY_ORDER.filter(severity => counts[severity] > 0).map(severity => `${counts[severity]} ${severity}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+/**
+ * Render the dashboard as a markdown table, ready PRs first
+ */
+export function formatPullRequestDashboard(entries: PullRequestDashboardEntry[], title: string): string {
+  if (entries.length === 0) {
+    return `## ${title}\n\nNo pull requests found.\n`;
+  }
+
+  const sorted = [...entries].sort((a, b) =>
+    Number(isReadyToMerge(b)) - Number(isReadyToMerge(a)) || b.lastActivity.localeCompare(a.lastActivity)
+  );
+  const ready = sorted.filter(isReadyToMerge).length;
+
+  let content = `## ${title}\n\n`;
+  content += `**Pull requests:** ${entries.length} (${ready} ready to merge)\n\n`;
+  content += '| PR | Title | Author | CodeRabbit | Latest head reviewed | Unresolved findings | Pending questions | Last activity |\n';
+  content += '|---|---|---|---|---|---|---|---|\n';
+
+  for (const entry of sorted) {
+    const pr = `[${entry.repository}#${entry.number}](${entry.url})`;
+    const prTitle = escapeTableCell(`${isReadyToMerge(entry) ? '✅ ' : ''}${entry.draft ? '(draft) ' : ''}${entry.title}`);
+    const author = entry.author ?? '-';
+    if (entry.error) {
+      content += `| ${pr} | ${prTitle} | ${author} | ⚠️ ${escapeTableCell(entry.error)} | - | - | - | ${entry.lastActivity} |\n`;
+      continue;
+    }
+    const reviewed = entry.reviewedLatest ? 'yes' : entry.reviewedSha ? `no (${entry.reviewedSha.slice(0, 7)})` : 'no';
+    content += `| ${pr} | ${prTitle} | ${author} | ${entry.reviewState ?? '-'} | ${reviewed} | ${entry.unresolved ? formatSeverityCounts(entry.unresolved) : '-'} | ${entry.pendingQuestions ?? '-'} | ${entry.lastActivity} |\n`;
+  }
+  return content;
+}
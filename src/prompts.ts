@@ -0,0 +1,221 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { GitHubIntegration } from './github-integration.js';
+import { formatStructuredReview, SEVERITY_ORDER } from './review-parser.js';
+import { pullResourceUri } from './resources.js';
+import {
+  AddressFindingsPromptSchema,
+  TriageNitpicksPromptSchema,
+  SummarizeReviewPromptSchema,
+  PRDescriptionPromptSchema,
+  CodeRabbitIssue,
+  CodeRabbitReview
+} from './types.js';
+
+type PromptMessage = GetPromptResult['messages'][number];
+
+const AUDIENCE_INSTRUCTIONS = {
+  author: 'Write for the PR author: what must change before merge, what is optional, and where to start.',
+  reviewer: 'Write for a human reviewer: which areas CodeRabbit flagged as risky and what it did not cover.',
+  manager: 'Write for someone who will not read the code: overall risk, blocking issues and readiness to merge, in plain language.'
+} as const;
+
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Embed findings as a resource so clients can show them separately from the instructions
+ */
+function findingsMessage(review: CodeRabbitReview, uri: string, issues: CodeRabbitIssue[]): PromptMessage {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: { uri, mimeType: 'text/markdown', text: formatStructuredReview({ ...review, issues }) }
+    }
+  };
+}
+
+/**
+ * Findings at or above a severity, most severe first
+ */
+export function filterBySeverity(issues: CodeRabbitIssue[], minSeverity: CodeRabbitIssue['severity']): CodeRabbitIssue[] {
+  const threshold = SEVERITY_ORDER.indexOf(minSeverity);
+  return issues
+    .filter(issue => SEVERITY_ORDER.indexOf(issue.severity) <= threshold)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+export function buildAddressFindingsMessages(
+  review: CodeRabbitReview,
+  uri: string,
+  minSeverity: CodeRabbitIssue['severity']
+): PromptMessage[] {
+  const issues = filterBySeverity(review.issues, minSeverity);
+
+  if (issues.length === 0) {
+    return [textMessage(
+      `CodeRabbit has no findings of severity ${minSeverity} or higher on ${review.id} (status: ${review.status}). ` +
+      'Confirm this with the user and ask whether lower-severity findings should be addressed.'
+    )];
+  }
+
+  return [
+    textMessage(
+      `Address CodeRabbit's feedback on ${review.id}. The ${issues.length} finding(s) of severity ${minSeverity} or higher ` +
+      `are attached (${review.issues.length} in total). Work from most to least severe. For each finding:\n\n` +
+      '1. Open the referenced file and confirm the finding still applies to the current code.\n' +
+      '2. Fix it with the smallest correct change, or explain why it should not be changed.\n' +
+      '3. For findings with a committable suggestion, prefer the applyCodeRabbitSuggestions tool with the finding ID.\n\n' +
+      'Finish with three lists of finding IDs: fixed, skipped (with the reason), and needing a human decision.'
+    ),
+    findingsMessage(review, uri, issues)
+  ];
+}
+
+export function buildTriageNitpicksMessages(review: CodeRabbitReview, uri: string): PromptMessage[] {
+  // Severity is no guide: CodeRabbit also rates nitpicks minor or major
+  const nitpicks = review.issues.filter(issue => issue.category === 'nitpick');
+
+  if (nitpicks.length === 0) {
+    return [textMessage(`CodeRabbit left no nitpicks on ${review.id}. Tell the user there is nothing to triage.`)];
+  }
+
+  return [
+    textMessage(
+      `Triage the ${nitpicks.length} CodeRabbit nitpick(s) on ${review.id} attached below. Do not change any code yet.\n\n` +
+      'Sort each nitpick into one of:\n' +
+      '- **apply now**: trivial and clearly an improvement\n' +
+      '- **defer**: valid but out of scope for this PR\n' +
+      '- **dismiss**: not applicable or conflicts with project conventions\n\n' +
+      'Answer with a markdown table (finding ID, file, decision, one-line reason), then ask whether to apply the "apply now" group.'
+    ),
+    findingsMessage(review, uri, nitpicks)
+  ];
+}
+
+export function buildSummarizeReviewMessages(
+  review: CodeRabbitReview,
+  uri: string,
+  audience: keyof typeof AUDIENCE_INSTRUCTIONS
+): PromptMessage[] {
+  return [
+    textMessage(
+      `Summarize CodeRabbit's review of ${review.id} (status: ${review.status}). ${AUDIENCE_INSTRUCTIONS[audience]}\n\n` +
+      'Group related findings instead of listing each one, mention finding IDs for anything blocking, ' +
+      'and keep the summary under 250 words.'
+    ),
+    findingsMessage(review, uri, review.issues)
+  ];
+}
+
+export function buildPRDescriptionMessages(changes: {
+  currentBranch: string;
+  base: string;
+  commits: string[];
+  diffStat: string;
+  diff: string;
+  diffTruncated: boolean;
+}): PromptMessage[] {
+  let context = `Branch \`${changes.currentBranch}\` compared with \`origin/${changes.base}\`\n\n`;
+  context += `### Commits\n${changes.commits.length > 0 ? changes.commits.map(commit => `- ${commit}`).join('\n') : '_None_'}\n\n`;
+  context += `### Diff stat\n\`\`\`\n${changes.diffStat || 'No changes'}\n\`\`\`\n\n`;
+  context += `### Diff${changes.diffTruncated ? ' (truncated)' : ''}\n\`\`\`diff\n${changes.diff}\n\`\`\`\n`;
+
+  return [
+    textMessage(
+      'Write a pull request title and description for the changes below. CodeRabbit reads the description as context ' +
+      'for its review, so be explicit about intent.\n\n' +
+      'Use these sections:\n' +
+      '- **Summary**: what changes and why, in two or three sentences\n' +
+      '- **Changes**: one bullet per logical change\n' +
+      '- **Testing**: how the change was verified\n' +
+      '- **Review focus**: areas where a careful review matters most, and anything deliberately out of scope\n\n' +
+      'Do not invent testing that is not evident from the changes; ask the user instead. ' +
+      'Once the description is agreed, the PR can be opened with the pushChangesAndCreatePR tool.'
+    ),
+    textMessage(context)
+  ];
+}
+
+/**
+ * Register prompt templates for common CodeRabbit workflows
+ * All prompts pull live data from GitHub, so they require the GitHub integration.
+ * pr-description reads the server's checkout, so it is only offered with local access.
+ */
+export function registerPrompts(server: McpServer, githubIntegration: GitHubIntegration | null, localAccess: boolean): void {
+  if (!githubIntegration) return;
+
+  const getFindings = async (args: { owner: string; repo: string; prNumber: string }) => {
+    const prNumber = parseInt(args.prNumber, 10);
+    const review = await githubIntegration.getCodeRabbitFindings({ owner: args.owner, repo: args.repo, prNumber });
+    return { review, uri: pullResourceUri(args.owner, args.repo, prNumber, 'findings') };
+  };
+
+  server.registerPrompt(
+    'address-findings',
+    {
+      title: 'Address CodeRabbit Findings',
+      description: 'Work through CodeRabbit findings on a PR, fixing or explaining each one',
+      argsSchema: AddressFindingsPromptSchema.shape
+    },
+    async (args) => {
+      const { review, uri } = await getFindings(args);
+      return {
+        description: `Address CodeRabbit findings on ${review.id}`,
+        messages: buildAddressFindingsMessages(review, uri, args.minSeverity ?? 'medium')
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'triage-nitpicks',
+    {
+      title: 'Triage CodeRabbit Nitpicks',
+      description: 'Sort CodeRabbit nitpicks into apply now, defer and dismiss',
+      argsSchema: TriageNitpicksPromptSchema.shape
+    },
+    async (args) => {
+      const { review, uri } = await getFindings(args);
+      return {
+        description: `Triage CodeRabbit nitpicks on ${review.id}`,
+        messages: buildTriageNitpicksMessages(review, uri)
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'summarize-review',
+    {
+      title: 'Summarize CodeRabbit Review',
+      description: 'Summarize CodeRabbit review results for the author, a reviewer or a manager',
+      argsSchema: SummarizeReviewPromptSchema.shape
+    },
+    async (args) => {
+      const { review, uri } = await getFindings(args);
+      return {
+        description: `Summarize CodeRabbit review of ${review.id}`,
+        messages: buildSummarizeReviewMessages(review, uri, args.audience ?? 'author')
+      };
+    }
+  );
+
+  if (localAccess) {
+    server.registerPrompt(
+      'pr-description',
+      {
+        title: 'Write PR Description for CodeRabbit',
+        description: 'Draft a PR title and description from the current branch, structured to give CodeRabbit context',
+        argsSchema: PRDescriptionPromptSchema.shape
+      },
+      async (args) => {
+        const changes = await githubIntegration.getBranchChanges(args);
+        return {
+          description: `Describe changes on ${changes.currentBranch} for review`,
+          messages: buildPRDescriptionMessages(changes)
+        };
+      }
+    );
+  }
+}
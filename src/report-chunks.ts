@@ -0,0 +1,114 @@
+import { DeveloperActivityReport, ReportChunkBy, ReportGroupBy } from './types.js';
+
+// Ranges up to a month are generated in a single request
+const MAX_UNCHUNKED_DAYS = 31;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chunks of a long report generated at the same time
+export const REPORT_CHUNK_CONCURRENCY = 3;
+
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+// Outcome of generating one chunk; exactly one of report and error is set
+export interface ReportChunkResult {
+  range: ReportRange;
+  report?: DeveloperActivityReport;
+  error?: string;
+}
+
+/**
+ * Resolve 'auto' to weekly chunks for ranges longer than a month, otherwise no chunking
+ */
+export function resolveChunkBy(range: ReportRange, chunkBy: ReportChunkBy = 'auto'): Exclude<ReportChunkBy, 'auto'> {
+  if (chunkBy !== 'auto') return chunkBy;
+  return Date.parse(range.to) - Date.parse(range.from) > MAX_UNCHUNKED_DAYS * DAY_MS ? 'week' : 'none';
+}
+
+/**
+ * Split a date range into consecutive weeks or months counted from its start
+ * Each chunk ends one second before the next begins, and the last ends at the range end.
+ */
+export function splitReportRange(range: ReportRange, chunkBy: ReportChunkBy = 'auto'): ReportRange[] {
+  const start = Date.parse(range.from);
+  const end = Date.parse(range.to);
+  if (isNaN(start) || isNaN(end)) {
+    throw new Error(`Invalid report range: ${range.from} to ${range.to}`);
+  }
+  if (end < start) {
+    throw new Error('`to` must not be before `from`');
+  }
+
+  const unit = resolveChunkBy(range, chunkBy);
+  if (unit === 'none') {
+    return [{ from: range.from, to: range.to }];
+  }
+
+  const chunks: ReportRange[] = [];
+  let chunkStart = new Date(start);
+  while (chunkStart.getTime() <= end) {
+    const next = new Date(chunkStart);
+    if (unit === 'week') {
+      next.setUTCDate(next.getUTCDate() + 7);
+    } else {
+      next.setUTCMonth(next.getUTCMonth() + 1);
+    }
+    chunks.push({
+      from: chunkStart.toISOString(),
+      to: new Date(Math.min(next.getTime() - 1000, end)).toISOString()
+    });
+    chunkStart = next;
+  }
+  return chunks;
+}
+
+/**
+ * Merge chunk reports into one report with a section per group
+ * Each group's section lists its per-chunk reports in date order; failed chunks are recorded.
+ */
+export function mergeReportChunks(
+  params: ReportRange & { groupBy?: ReportGroupBy },
+  results: ReportChunkResult[]
+): DeveloperActivityReport {
+  const groups = new Map<string, string[]>();
+  const failedChunks: NonNullable<DeveloperActivityReport['failedChunks']> = [];
+
+  for (const result of results) {
+    if (!result.report) {
+      failedChunks.push({ ...result.range, error: result.error ?? 'Unknown error' });
+      continue;
+    }
+    for (const section of result.report.sections) {
+      const parts = groups.get(section.group) ?? [];
+      parts.push(`#### ${result.range.from} to ${result.range.to}\n\n${section.report.trim()}`);
+      groups.set(section.group, parts);
+    }
+  }
+
+  return {
+    from: params.from,
+    to: params.to,
+    groupBy: params.groupBy,
+    generatedAt: new Date().toISOString(),
+    sections: [...groups].map(([group, parts]) => ({ group, report: parts.join('\n\n') })),
+    ...(failedChunks.length > 0 && { failedChunks })
+  };
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping result order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
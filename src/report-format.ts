@@ -0,0 +1,135 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  DeveloperActivityReport,
+  ReportFormat,
+  ReportGroupBy,
+  ReportSection,
+  ReportSectionSchema
+} from './types.js';
+
+// Group name used when the API returns a single ungrouped report
+const UNGROUPED_SECTION = 'All';
+
+// Length of the per-group highlight shown in the markdown overview table
+const HIGHLIGHT_LENGTH = 120;
+
+/**
+ * Validate a report API response and wrap it in a typed report
+ * The API returns a list of { group, report } sections; older responses were plain markdown.
+ */
+export function parseReportResponse(
+  data: unknown,
+  params: { from: string; to: string; groupBy?: ReportGroupBy }
+): DeveloperActivityReport {
+  let sections: ReportSection[];
+
+  if (typeof data === 'string') {
+    sections = [{ group: UNGROUPED_SECTION, report: data }];
+  } else {
+    const result = z.array(ReportSectionSchema).safeParse(data);
+    if (!result.success) {
+      throw new Error(`Unexpected report response from CodeRabbit: ${result.error.issues[0]?.message ?? 'invalid format'}`);
+    }
+    sections = result.data;
+  }
+
+  return {
+    from: params.from,
+    to: params.to,
+    groupBy: params.groupBy,
+    generatedAt: new Date().toISOString(),
+    sections
+  };
+}
+
+/**
+ * First meaningful line of a markdown section, stripped of markup
+ */
+function getHighlight(markdown: string): string {
+  const line = markdown
+    .split('\n')
+    .map(text => text.replace(/^[#>*\-\s]+/, '').replace(/[*_`]/g, '').trim())
+    .find(text => text.length > 0) ?? '';
+  const highlight = line.length > HIGHLIGHT_LENGTH ? `${line.slice(0, HIGHLIGHT_LENGTH - 1)}…` : line;
+  return highlight.replace(/\|/g, '\\|');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderMarkdown(report: DeveloperActivityReport): string {
+  let content = `## Developer Activity Report\n\n`;
+  content += `**Period:** ${report.from} to ${report.to}\n`;
+  if (report.groupBy) {
+    content += `**Grouped by:** ${report.groupBy}\n`;
+  }
+  content += `**Generated:** ${report.generatedAt}\n\n`;
+
+  if (report.failedChunks) {
+    content += `> **Partial report:** ${report.failedChunks.length} period(s) failed and are missing. Generate the report again to retry only those.\n>\n`;
+    for (const chunk of report.failedChunks) {
+      content += `> - ${chunk.from} to ${chunk.to}: ${chunk.error}\n`;
+    }
+    content += '\n';
+  }
+
+  if (report.sections.length === 0) {
+    return content + '_No activity in this period._\n';
+  }
+
+  if (report.sections.length > 1) {
+    content += '| Group | Highlights |\n|---|---|\n';
+    for (const section of report.sections) {
+      content += `| ${section.group.replace(/\|/g, '\\|')} | ${getHighlight(section.report)} |\n`;
+    }
+    content += '\n';
+  }
+
+  for (const section of report.sections) {
+    content += `### ${section.group}\n\n${section.report.trim()}\n\n`;
+  }
+  return content;
+}
+
+function renderCsv(report: DeveloperActivityReport): string {
+  const rows = [['from', 'to', 'group', 'report']];
+  for (const section of report.sections) {
+    rows.push([report.from, report.to, section.group, section.report]);
+  }
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Render a report as markdown (overview table plus one section per group), CSV or JSON
+ */
+export function renderReport(report: DeveloperActivityReport, format: ReportFormat = 'markdown'): string {
+  switch (format) {
+    case 'csv':
+      return renderCsv(report);
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    default:
+      return renderMarkdown(report);
+  }
+}
+
+/**
+ * Write rendered report content to a path inside the workspace
+ * Returns the absolute path written
+ */
+export async function writeReportFile(workspaceRoot: string, outputPath: string, content: string): Promise<string> {
+  const root = path.resolve(workspaceRoot);
+  const target = path.resolve(root, outputPath);
+  const relative = path.relative(root, target);
+
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Output path must be a file inside the workspace: ${outputPath}`);
+  }
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, content, 'utf-8');
+  return target;
+}
@@ -0,0 +1,332 @@
+import { randomUUID } from 'crypto';
+import { CodeRabbitClient } from './coderabbit-client.js';
+import { REPORT_CHUNK_CONCURRENCY, splitReportRange } from './report-chunks.js';
+import { DeveloperActivityReport, ReportChunkBy, ReportFormat, ReportGroupBy } from './types.js';
+
+// Generating one report (or one round of concurrent chunks) can take up to 10 minutes
+const DEFAULT_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Reports are generated one or two at a time to stay friendly to the API
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+
+// Finished jobs are forgotten after the cached report expires
+const DEFAULT_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Abort reason used to tell a timeout from a cancellation
+const TIMEOUT_REASON = 'timeout';
+
+export type ReportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReportParams {
+  from: string;
+  to: string;
+  prompt?: string;
+  groupBy?: ReportGroupBy;
+  orgId?: string;
+  chunkBy?: ReportChunkBy;
+}
+
+// How a finished report is rendered and where it is written
+export interface ReportOutput {
+  format?: ReportFormat;
+  outputPath?: string;
+}
+
+export interface ReportJob {
+  id: string;
+  reportId: string; // ID of the cached report, also used in coderabbit://reports/{id}
+  params: ReportParams;
+  output: ReportOutput;
+  status: ReportJobStatus;
+  attempts: number;
+  cached: boolean; // Completed from the cache without calling the API
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+  timedOut?: boolean;
+}
+
+interface JobEntry {
+  job: ReportJob;
+  refresh: boolean;
+  controller?: AbortController;
+}
+
+type ReportGenerator = Pick<CodeRabbitClient, 'generateReport' | 'getReportId' | 'getCachedReport'>;
+
+export function isTerminalStatus(status: ReportJobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Runs report generation in the background so tools can return immediately
+ * Jobs live in memory; finished reports are kept in the report cache.
+ */
+export class ReportJobManager {
+  private jobs: Map<string, JobEntry> = new Map();
+  private queue: string[] = [];
+  private running = 0;
+  private listeners: Set<(job: ReportJob) => void> = new Set();
+  private timeoutMs: number;
+  private maxConcurrent: number;
+  private retentionMs: number;
+
+  constructor(
+    private client: ReportGenerator,
+    options: {
+      timeoutMs?: number; // Per round of concurrent chunks; unchunked reports have one round
+      maxConcurrent?: number;
+      retentionMs?: number;
+    } = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS;
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT_JOBS;
+    this.retentionMs = options.retentionMs ?? DEFAULT_JOB_RETENTION_MS;
+  }
+
+  /**
+   * Start a report job, reusing an active job or a cached report for the same parameters
+   */
+  start(params: ReportParams & ReportOutput & { refresh?: boolean }): ReportJob {
+    this.prune();
+
+    const { refresh = false, format, outputPath, ...reportParams } = params;
+    const reportId = this.client.getReportId(reportParams);
+
+    if (!refresh) {
+      const active = [...this.jobs.values()].find(entry => entry.job.reportId === reportId && !isTerminalStatus(entry.job.status));
+      if (active) return { ...active.job };
+    }
+
+    const job: ReportJob = {
+      id: randomUUID(),
+      reportId,
+      params: reportParams,
+      output: { format, outputPath },
+      status: 'queued',
+      attempts: 0,
+      cached: false,
+      createdAt: new Date()
+    };
+    const entry: JobEntry = { job, refresh };
+    this.jobs.set(job.id, entry);
+
+    // Partial reports are regenerated; only their missing chunks are fetched again
+    const cached = refresh ? null : this.client.getCachedReport(reportId);
+    if (cached && !cached.failedChunks) {
+      job.status = 'completed';
+      job.cached = true;
+      job.finishedAt = new Date();
+      this.emit(job);
+      return { ...job };
+    }
+
+    this.enqueue(entry);
+    return { ...job };
+  }
+
+  get(id: string): ReportJob | undefined {
+    const entry = this.jobs.get(id);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  // Most recent first
+  list(): ReportJob[] {
+    this.prune();
+    return [...this.jobs.values()]
+      .map(entry => ({ ...entry.job }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Get the report of a completed job, or null when it is not done or has expired from the cache
+   */
+  getResult(id: string): DeveloperActivityReport | null {
+    const entry = this.require(id);
+    if (entry.job.status !== 'completed') return null;
+    return this.client.getCachedReport(entry.job.reportId);
+  }
+
+  cancel(id: string): ReportJob {
+    const entry = this.require(id);
+
+    if (entry.job.status === 'queued') {
+      this.queue = this.queue.filter(queued => queued !== id);
+      this.finish(entry, 'cancelled', 'Cancelled before it started');
+    } else if (entry.job.status === 'running') {
+      // The running attempt settles as cancelled
+      entry.controller?.abort();
+    } else {
+      throw new Error(`Job ${id} is already ${entry.job.status}`);
+    }
+
+    return { ...entry.job };
+  }
+
+  /**
+   * Run a failed or cancelled job again with its original parameters
+   */
+  retry(id: string): ReportJob {
+    const entry = this.require(id);
+    if (entry.job.status !== 'failed' && entry.job.status !== 'cancelled') {
+      throw new Error(`Job ${id} is ${entry.job.status}; only failed or cancelled jobs can be retried`);
+    }
+
+    entry.job.status = 'queued';
+    entry.job.error = undefined;
+    entry.job.timedOut = undefined;
+    entry.job.finishedAt = undefined;
+    this.enqueue(entry);
+    return { ...entry.job };
+  }
+
+  /**
+   * Wait until a job finishes, the timeout elapses or the signal aborts
+   * Aborting only stops waiting; the job keeps running.
+   */
+  async wait(id: string, options: {
+    timeoutMs: number;
+    signal?: AbortSignal;
+    progressIntervalMs?: number;
+    onProgress?: (job: ReportJob, elapsedMs: number) => void | Promise<void>;
+  }): Promise<ReportJob> {
+    const entry = this.require(id);
+    const started = Date.now();
+    const progressIntervalMs = options.progressIntervalMs ?? 5000;
+
+    while (!isTerminalStatus(entry.job.status) && !options.signal?.aborted) {
+      const remaining = options.timeoutMs - (Date.now() - started);
+      if (remaining <= 0) break;
+
+      await this.waitForChange(id, Math.min(progressIntervalMs, remaining), options.signal);
+      await options.onProgress?.({ ...entry.job }, Date.now() - started);
+    }
+
+    return { ...entry.job };
+  }
+
+  /**
+   * Listen for job status changes; returns a function that removes the listener
+   */
+  onChange(listener: (job: ReportJob) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private require(id: string): JobEntry {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      throw new Error(`Report job ${id} not found (jobs are kept for ${Math.round(this.retentionMs / 3600000)} hours)`);
+    }
+    return entry;
+  }
+
+  private enqueue(entry: JobEntry): void {
+    this.queue.push(entry.job.id);
+    this.emit(entry.job);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
+      const entry = this.jobs.get(this.queue.shift()!);
+      if (entry) void this.run(entry);
+    }
+  }
+
+  /**
+   * Time allowed for a job, scaled by the rounds of chunks a long range is generated in
+   * so a report that keeps making progress is not cut off
+   */
+  private getTimeoutMs(params: ReportParams): number {
+    try {
+      const chunks = splitReportRange(params, params.chunkBy).length;
+      return this.timeoutMs * Math.ceil(chunks / REPORT_CHUNK_CONCURRENCY);
+    } catch {
+      // Invalid ranges fail in generateReport with a clearer error
+      return this.timeoutMs;
+    }
+  }
+
+  private async run(entry: JobEntry): Promise<void> {
+    const { job } = entry;
+    const controller = new AbortController();
+    const timeoutMs = this.getTimeoutMs(job.params);
+    const timer = setTimeout(() => controller.abort(TIMEOUT_REASON), timeoutMs);
+    // A pending job must not keep the process alive on its own
+    timer.unref();
+
+    this.running++;
+    entry.controller = controller;
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = new Date();
+    this.emit(job);
+
+    try {
+      await this.client.generateReport({ ...job.params, refresh: entry.refresh }, { signal: controller.signal });
+      // Later attempts must not regenerate a report that now exists
+      entry.refresh = false;
+      this.finish(entry, 'completed');
+    } catch (error) {
+      if (controller.signal.reason === TIMEOUT_REASON) {
+        job.timedOut = true;
+        this.finish(entry, 'failed', `Timed out after ${Math.round(timeoutMs / 1000)}s`);
+      } else if (controller.signal.aborted) {
+        this.finish(entry, 'cancelled', 'Cancelled while running');
+      } else {
+        this.finish(entry, 'failed', error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      clearTimeout(timer);
+      entry.controller = undefined;
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private finish(entry: JobEntry, status: ReportJobStatus, error?: string): void {
+    entry.job.status = status;
+    entry.job.error = error;
+    entry.job.finishedAt = new Date();
+    this.emit(entry.job);
+  }
+
+  private emit(job: ReportJob): void {
+    for (const listener of this.listeners) {
+      try {
+        listener({ ...job });
+      } catch (error) {
+        console.error('Report job listener failed:', error);
+      }
+    }
+  }
+
+  private waitForChange(id: string, ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      const unsubscribe = this.onChange(job => {
+        if (job.id === id) done();
+      });
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, entry] of this.jobs) {
+      if (isTerminalStatus(entry.job.status) && (entry.job.finishedAt?.getTime() ?? 0) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { CodeRabbitClient } from './coderabbit-client.js';
+import { GitHubIntegration } from './github-integration.js';
+import { formatStructuredReview } from './review-parser.js';
+
+// How often subscribed pull requests are checked for new CodeRabbit activity
+const WATCH_INTERVAL_MS = 60000;
+
+export type PullResourceKind = 'comments' | 'reviews' | 'findings';
+
+const PULL_RESOURCE_PATTERN = /^coderabbit:\/\/([^/]+)\/([^/]+)\/pull\/(\d+)\/(comments|reviews|findings)$/;
+
+/**
+ * Build the resource URI for one view of a pull request
+ */
+export function pullResourceUri(owner: string, repo: string, prNumber: number, kind: PullResourceKind): string {
+  return `coderabbit://${owner}/${repo}/pull/${prNumber}/${kind}`;
+}
+
+/**
+ * Build the resource URI for a generated report
+ */
+export function reportResourceUri(id: string): string {
+  return `coderabbit://reports/${id}`;
+}
+
+/**
+ * Parse a pull request resource URI, or return null for other URIs
+ */
+export function parsePullResourceUri(uri: string): { owner: string; repo: string; prNumber: number; kind: PullResourceKind } | null {
+  const match = uri.match(PULL_RESOURCE_PATTERN);
+  if (!match) return null;
+  return {
+    owner: decodeURIComponent(match[1]),
+    repo: decodeURIComponent(match[2]),
+    prNumber: parseInt(match[3], 10),
+    kind: match[4] as PullResourceKind
+  };
+}
+
+interface WatchedPullRequest {
+  owner: string;
+  repo: string;
+  prNumber: number;
+  uris: Set<string>;
+  marker?: string; // Last seen activity fingerprint
+}
+
+/**
+ * Polls subscribed pull requests and reports resource URIs whose CodeRabbit activity changed
+ */
+export class PullRequestWatcher {
+  private watched: Map<string, WatchedPullRequest> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private githubIntegration: Pick<GitHubIntegration, 'getCodeRabbitActivity'>,
+    private notify: (uri: string) => Promise<void>,
+    private intervalMs: number = WATCH_INTERVAL_MS
+  ) {}
+
+  /**
+   * Start watching the PR behind a resource URI; returns false for URIs that cannot change
+   */
+  subscribe(uri: string): boolean {
+    const parsed = parsePullResourceUri(uri);
+    if (!parsed) return false;
+
+    const key = `${parsed.owner}/${parsed.repo}#${parsed.prNumber}`;
+    let entry = this.watched.get(key);
+    if (!entry) {
+      entry = { owner: parsed.owner, repo: parsed.repo, prNumber: parsed.prNumber, uris: new Set() };
+      this.watched.set(key, entry);
+      // Record the current state so only later activity triggers notifications
+      void this.check(entry);
+    }
+    entry.uris.add(uri);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+    return true;
+  }
+
+  unsubscribe(uri: string): void {
+    for (const [key, entry] of this.watched) {
+      entry.uris.delete(uri);
+      if (entry.uris.size === 0) this.watched.delete(key);
+    }
+    if (this.watched.size === 0) this.stop();
+  }
+
+  /**
+   * Check all watched pull requests once
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const entry of [...this.watched.values()]) {
+        await this.check(entry);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async check(entry: WatchedPullRequest): Promise<void> {
+    try {
+      const marker = await this.githubIntegration.getCodeRabbitActivity(entry);
+      const changed = entry.marker !== undefined && marker !== entry.marker;
+      entry.marker = marker;
+
+      if (changed) {
+        for (const uri of entry.uris) {
+          await this.notify(uri);
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not check CodeRabbit activity for ${entry.owner}/${entry.repo}#${entry.prNumber}:`, error);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+function getVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parsePullVariables(variables: Variables): { owner: string; repo: string; prNumber: number } {
+  const prNumber = parseInt(getVariable(variables, 'number'), 10);
+  if (!Number.isInteger(prNumber) || prNumber <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid pull request number: ${getVariable(variables, 'number')}`);
+  }
+  return { owner: getVariable(variables, 'owner'), repo: getVariable(variables, 'repo'), prNumber };
+}
+
+function jsonContents(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+  };
+}
+
+/**
+ * Register CodeRabbit resources: pull request comments, reviews and findings,
+ * plus generated reports. PR resources support subscriptions.
+ */
+export function registerResources(
+  server: McpServer,
+  coderabbitClient: CodeRabbitClient,
+  githubIntegration: GitHubIntegration | null
+): void {
+  server.registerResource(
+    'report',
+    new ResourceTemplate('coderabbit://reports/{id}', {
+      list: () => ({
+        resources: coderabbitClient.listCachedReportIds().map(id => ({
+          uri: reportResourceUri(id),
+          name: `Report ${id.slice(0, 12)}`,
+          mimeType: 'application/json'
+        }))
+      })
+    }),
+    {
+      title: 'Developer Activity Report',
+      description: 'A report produced by generateReport',
+      mimeType: 'application/json'
+    },
+    (uri, variables) => {
+      const report = coderabbitClient.getCachedReport(getVariable(variables, 'id'));
+      if (report === null) {
+        throw new McpError(ErrorCode.InvalidParams, `Report not found or expired: ${uri.href}`);
+      }
+      return jsonContents(uri, report);
+    }
+  );
+
+  if (!githubIntegration) return;
+
+  server.registerResource(
+    'pull-comments',
+    new ResourceTemplate('coderabbit://{owner}/{repo}/pull/{number}/comments', { list: undefined }),
+    {
+      title: 'CodeRabbit PR Comments',
+      description: 'CodeRabbit conversation comments on a pull request',
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const { items, truncated } = await githubIntegration.getCodeRabbitComments(parsePullVariables(variables));
+      return jsonContents(uri, { comments: items, truncated });
+    }
+  );
+
+  server.registerResource(
+    'pull-reviews',
+    new ResourceTemplate('coderabbit://{owner}/{repo}/pull/{number}/reviews', { list: undefined }),
+    {
+      title: 'CodeRabbit PR Reviews',
+      description: 'Reviews CodeRabbit submitted on a pull request',
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const { items, truncated } = await githubIntegration.getCodeRabbitReviews(parsePullVariables(variables));
+      return jsonContents(uri, { reviews: items, truncated });
+    }
+  );
+
+  server.registerResource(
+    'pull-findings',
+    new ResourceTemplate('coderabbit://{owner}/{repo}/pull/{number}/findings', { list: undefined }),
+    {
+      title: 'CodeRabbit PR Findings',
+      description: 'Structured CodeRabbit findings for a pull request, grouped by severity',
+      mimeType: 'text/markdown'
+    },
+    async (uri, variables) => {
+      const review = await githubIntegration.getCodeRabbitFindings(parsePullVariables(variables));
+      let text = formatStructuredReview(review);
+      if (review.truncated) {
+        text += '\n_Some pages were not fetched; findings may be incomplete._\n';
+      }
+      return { contents: [{ uri: uri.href, mimeType: 'text/markdown', text }] };
+    }
+  );
+
+  // Subscriptions: notify clients when CodeRabbit posts new activity on a watched PR
+  const watcher = new PullRequestWatcher(githubIntegration, uri => server.server.sendResourceUpdated({ uri }));
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, request => {
+    watcher.subscribe(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, request => {
+    watcher.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    watcher.stop();
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,133 @@
+import { CodeRabbitIssue, CodeRabbitReview } from './types.js';
+import { SEVERITY_ORDER } from './review-parser.js';
+
+// Hot files and issue types shown in the trends
+const MAX_TREND_ROWS = 10;
+
+export interface ReviewHistoryEntry extends CodeRabbitReview {
+  title: string;
+}
+
+export interface ReviewHistoryTrends {
+  pullRequests: number;
+  totalFindings: number;
+  findingsPerPullRequest: number;
+  bySeverity: Record<CodeRabbitIssue['severity'], number>;
+  byType: Array<{ type: CodeRabbitIssue['type']; count: number }>; // Most common first
+  hotFiles: Array<{ file: string; findings: number; pullRequests: number }>; // Most findings first
+  byWeek: Array<{ week: string; pullRequests: number; findings: number }>; // Week starting Monday (UTC), oldest first
+}
+
+/**
+ * Monday (UTC) of the week a date falls in, as YYYY-MM-DD
+ */
+export function getWeekStart(date: Date): string {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start.toISOString().slice(0, 10);
+}
+
+/**
+ * Aggregate findings across reviewed pull requests
+ */
+export function aggregateReviewHistory(reviews: CodeRabbitReview[]): ReviewHistoryTrends {
+  const bySeverity = Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, 0])) as ReviewHistoryTrends['bySeverity'];
+  const byType = new Map<CodeRabbitIssue['type'], number>();
+  const files = new Map<string, { findings: number; pullRequests: Set<number> }>();
+  const weeks = new Map<string, { pullRequests: number; findings: number }>();
+  let totalFindings = 0;
+
+  for (const review of reviews) {
+    totalFindings += review.issues.length;
+
+    const week = getWeekStart(review.completedAt ?? review.createdAt);
+    const weekStats = weeks.get(week) ?? { pullRequests: 0, findings: 0 };
+    weekStats.pullRequests++;
+    weekStats.findings += review.issues.length;
+    weeks.set(week, weekStats);
+
+    for (const issue of review.issues) {
+      bySeverity[issue.severity]++;
+      byType.set(issue.type, (byType.get(issue.type) ?? 0) + 1);
+
+      const file = files.get(issue.file) ?? { findings: 0, pullRequests: new Set<number>() };
+      file.findings++;
+      file.pullRequests.add(review.prNumber ?? 0);
+      files.set(issue.file, file);
+    }
+  }
+
+  return {
+    pullRequests: reviews.length,
+    totalFindings,
+    findingsPerPullRequest: reviews.length > 0 ? totalFindings / reviews.length : 0,
+    bySeverity,
+    byType: [...byType]
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_TREND_ROWS),
+    hotFiles: [...files]
+      .map(([file, stats]) => ({ file, findings: stats.findings, pullRequests: stats.pullRequests.size }))
+      .sort((a, b) => b.findings - a.findings || b.pullRequests - a.pullRequests)
+      .slice(0, MAX_TREND_ROWS),
+    byWeek: [...weeks]
+      .map(([week, stats]) => ({ week, ...stats }))
+      .sort((a, b) => a.week.localeCompare(b.week))
+  };
+}
+
+/**
+ * Render review history and trends as markdown
+ */
+export function formatReviewHistory(history: {
+  repository: string;
+  since?: string;
+  until?: string;
+  reviews: ReviewHistoryEntry[];
+  truncated: boolean;
+  failed?: number[]; // PRs whose reviews could not be loaded
+}): string {
+  const period = history.since || history.until
+    ? ` (${history.since ?? 'beginning'} to ${history.until ?? 'now'})`
+    : '';
+  let content = `## CodeRabbit Review History for ${history.repository}${period}\n\n`;
+  const failed = history.failed?.length
+    ? `\n⚠️ Could not load CodeRabbit reviews of ${history.failed.map(number => `#${number}`).join(', ')}.\n`
+    : '';
+
+  if (history.reviews.length === 0) {
+    return content + 'No pull requests reviewed by CodeRabbit in this period.\n' + failed;
+  }
+
+  const trends = aggregateReviewHistory(history.reviews);
+  content += `**Reviewed pull requests:** ${trends.pullRequests}\n`;
+  content += `**Findings:** ${trends.totalFindings} (${trends.findingsPerPullRequest.toFixed(1)} per PR)\n`;
+  content += `**By severity:** ${SEVERITY_ORDER.map(severity => `${trends.bySeverity[severity]} ${severity}`).join(', ')}\n\n`;
+
+  if (trends.byType.length > 0) {
+    content += `### Most Common Issue Types\n\n`;
+    content += trends.byType.map(({ type, count }) => `- ${type}: ${count}`).join('\n') + '\n\n';
+  }
+
+  if (trends.hotFiles.length > 0) {
+    content += `### Hot Files\n\n| File | Findings | PRs |\n|---|---|---|\n`;
+    content += trends.hotFiles.map(file => `| \`${file.file}\` | ${file.findings} | ${file.pullRequests} |`).join('\n') + '\n\n';
+  }
+
+  content += `### Findings per Week\n\n| Week of | PRs | Findings | Per PR |\n|---|---|---|---|\n`;
+  content += trends.byWeek
+    .map(week => `| ${week.week} | ${week.pullRequests} | ${week.findings} | ${(week.findings / week.pullRequests).toFixed(1)} |`)
+    .join('\n') + '\n\n';
+
+  content += `### Pull Requests\n\n`;
+  for (const review of history.reviews) {
+    const reviewedAt = (review.completedAt ?? review.createdAt).toISOString().slice(0, 10);
+    content += `- [#${review.prNumber}](${review.url}) ${review.title.replace(/\s+/g, ' ')}: ${review.issues.length} finding(s), reviewed ${reviewedAt}\n`;
+  }
+
+  content += failed;
+  if (history.truncated) {
+    content += `\n⚠️ Limit reached: older pull requests reviewed in this period may be missing. Increase limit to see them.\n`;
+  }
+  return content;
+}
@@ -0,0 +1,510 @@
+import { createHash } from 'crypto';
+import { CodeRabbitFindingCategory as FindingCategory, CodeRabbitIssue, CodeRabbitReview, ReviewStats } from './types.js';
+
+// Markers CodeRabbit places in its summary comment to signal review state
+const REVIEW_IN_PROGRESS_MARKER = 'review in progress by coderabbit.ai';
+const REVIEW_SKIPPED_MARKERS = ['skip review by coderabbit.ai', 'review skipped'];
+const REVIEW_PAUSED_MARKERS = ['reviews paused', 'review paused'];
+
+// Most severe first
+export const SEVERITY_ORDER = ['critical', 'high', 'medium', 'low', 'info'] as const;
+
+/**
+ * Minimal shape of a GitHub comment or review needed for parsing
+ */
+export interface RawCodeRabbitBody {
+  id: number;
+  body: string;
+  created_at?: string;
+  submitted_at?: string | null;
+  html_url?: string;
+}
+
+/**
+ * Anchor information for a line-level review comment
+ */
+export interface InlineAnchor {
+  path: string;
+  line?: number | null;
+  startLine?: number | null;
+  diffHunk?: string;
+}
+
+/**
+ * Generate a stable ID for a finding so the same finding keeps its ID across fetches
+ */
+export function createIssueId(file: string, line: number | undefined, message: string): string {
+  const hash = createHash('sha1')
+    .update(`${file}:${line ?? ''}:${message.trim().toLowerCase()}`)
+    .digest('hex');
+  return `cr-${hash.slice(0, 10)}`;
+}
+
+/**
+ * Map a section or label text to a finding category
+ */
+function mapCategory(label: string): FindingCategory | null {
+  const normalized = label.toLowerCase();
+  if (normalized.includes('nitpick')) return 'nitpick';
+  if (normalized.includes('outside diff')) return 'outside_diff';
+  if (normalized.includes('duplicate')) return 'duplicate';
+  if (normalized.includes('additional comments')) return 'additional';
+  if (normalized.includes('potential issue')) return 'potential_issue';
+  if (normalized.includes('refactor')) return 'refactor';
+  if (normalized.includes('verification')) return 'verification';
+  return null;
+}
+
+/**
+ * Map CodeRabbit's severity badges (🔴 Critical, 🟠 Major, ...) to our severity levels
+ */
+function mapSeverity(label: string | undefined, category: FindingCategory): CodeRabbitIssue['severity'] {
+  const normalized = (label || '').toLowerCase();
+  if (normalized.includes('critical')) return 'critical';
+  if (normalized.includes('major')) return 'high';
+  if (normalized.includes('minor')) return 'medium';
+  if (normalized.includes('trivial')) return 'low';
+  if (normalized.includes('info')) return 'info';
+
+  switch (category) {
+    case 'potential_issue':
+    case 'outside_diff':
+      return 'high';
+    case 'refactor':
+    case 'duplicate':
+      return 'medium';
+    case 'nitpick':
+      return 'low';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Classify a finding from its category and wording
+ */
+function mapIssueType(category: FindingCategory, text: string): CodeRabbitIssue['type'] {
+  const normalized = text.toLowerCase();
+  if (/security|vulnerab|injection|xss|csrf|secret|credential|sanitiz/.test(normalized)) return 'security';
+  if (/performance|inefficien|n\+1|memory leak|quadratic|slow/.test(normalized)) return 'performance';
+
+  switch (category) {
+    case 'potential_issue':
+    case 'outside_diff':
+      return 'bug';
+    case 'refactor':
+    case 'duplicate':
+      return 'code_smell';
+    case 'nitpick':
+      return 'style';
+    default:
+      return 'best_practice';
+  }
+}
+
+/**
+ * Remove HTML comments, which CodeRabbit uses for internal state
+ */
+function stripHtmlComments(body: string): string {
+  return body.replace(/<!--[\s\S]*?-->/g, '');
+}
+
+/**
+ * Split finding content into prose, fenced code fix and its format
+ */
+function splitFindingContent(lines: string[]): { prose: string; fix?: string; fixFormat?: 'suggestion' | 'diff' } {
+  const prose: string[] = [];
+  let fix: string | undefined;
+  let fixFormat: 'suggestion' | 'diff' | undefined;
+  let fence: { lang: string; lines: string[] } | null = null;
+  let detailsDepth = 0;
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/^>\s?/, '');
+    const trimmed = line.trim();
+
+    if (fence) {
+      if (trimmed.startsWith('```')) {
+        // Committable suggestions take precedence over plain diffs
+        if (fence.lang === 'suggestion' || (fence.lang === 'diff' && fixFormat !== 'suggestion')) {
+          fix = fence.lines.join('\n');
+          fixFormat = fence.lang;
+        }
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    const fenceMatch = trimmed.match(/^```(\w*)/);
+    if (fenceMatch) {
+      fence = { lang: fenceMatch[1].toLowerCase(), lines: [] };
+      continue;
+    }
+
+    // Skip collapsible sections (AI prompts, analysis chains) in the prose
+    if (/^<details>/i.test(trimmed)) {
+      detailsDepth++;
+      continue;
+    }
+    if (/<\/details>/i.test(trimmed)) {
+      detailsDepth = Math.max(0, detailsDepth - 1);
+      continue;
+    }
+    if (detailsDepth > 0 || /^<\/?[a-z][^>]*>$/i.test(trimmed) || trimmed === '---') {
+      continue;
+    }
+
+    prose.push(line);
+  }
+
+  return {
+    prose: prose.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    fix,
+    fixFormat
+  };
+}
+
+/**
+ * Build an issue from parsed parts
+ */
+function buildIssue(parts: {
+  category: FindingCategory;
+  severityLabel?: string;
+  file: string;
+  startLine?: number;
+  endLine?: number;
+  title: string;
+  content: string[];
+}): CodeRabbitIssue {
+  const { prose, fix, fixFormat } = splitFindingContent(parts.content);
+  const message = parts.title.trim();
+
+  return {
+    id: createIssueId(parts.file, parts.startLine, message),
+    severity: mapSeverity(parts.severityLabel, parts.category),
+    type: mapIssueType(parts.category, `${message}\n${prose}`),
+    category: parts.category,
+    file: parts.file,
+    line: parts.startLine,
+    endLine: parts.endLine ?? parts.startLine,
+    message,
+    suggestion: prose || undefined,
+    fix,
+    fixFormat
+  };
+}
+
+/**
+ * Parse the findings CodeRabbit embeds in a review summary body
+ * (nitpicks, outside-diff, duplicate and additional comments grouped per file)
+ */
+export function parseReviewBody(body: string): CodeRabbitIssue[] {
+  const issues: CodeRabbitIssue[] = [];
+  const lines = stripHtmlComments(body).split('\n');
+
+  let category: FindingCategory | null = null;
+  let file: string | null = null;
+  let current: { startLine?: number; endLine?: number; title: string; content: string[] } | null = null;
+
+  const flush = () => {
+    if (current && file && category && category !== 'additional') {
+      issues.push(buildIssue({ category, file, ...current }));
+    }
+    current = null;
+  };
+
+  for (const rawLine of lines) {
+    // Review bodies nest everything in blockquotes; strip the quote markers
+    const line = rawLine.replace(/^(>\s?)+/, '');
+    const trimmed = line.trim();
+
+    const summaryMatch = trimmed.match(/<summary>(.*?)<\/summary>/i);
+    if (summaryMatch) {
+      const label = summaryMatch[1].trim();
+      const sectionCategory = mapCategory(label);
+      const fileMatch = label.match(/^(.+?)\s+\((\d+)\)$/);
+
+      if (sectionCategory && fileMatch && /comments/i.test(label)) {
+        flush();
+        category = sectionCategory;
+        file = null;
+        continue;
+      }
+      if (category && fileMatch && /^[\w./`-]\S*$/.test(fileMatch[1])) {
+        flush();
+        file = fileMatch[1].replace(/^`|`$/g, '');
+        continue;
+      }
+    }
+
+    const entryMatch = trimmed.match(/^`(\d+)(?:-(\d+))?`:\s*\*\*(.+?)\*\*(.*)$/);
+    if (entryMatch && file) {
+      flush();
+      current = {
+        startLine: parseInt(entryMatch[1], 10),
+        endLine: entryMatch[2] ? parseInt(entryMatch[2], 10) : undefined,
+        title: entryMatch[3],
+        content: entryMatch[4].trim() ? [entryMatch[4].trim()] : []
+      };
+      continue;
+    }
+
+    // A file group closes with </blockquote></details>
+    if (/^<\/blockquote>\s*<\/details>/i.test(trimmed)) {
+      flush();
+      if (file) {
+        file = null;
+      } else {
+        category = null;
+      }
+      continue;
+    }
+
+    if (current) {
+      (current as { content: string[] }).content.push(line);
+    }
+  }
+
+  flush();
+  return issues;
+}
+
+/**
+ * Extract the last `count` lines of the new-file side of a diff hunk,
+ * which are the lines a review comment ending at the hunk's last line refers to
+ */
+export function extractHunkTargetLines(diffHunk: string, count: number): string[] {
+  const rightSide: string[] = [];
+  for (const line of diffHunk.split('\n')) {
+    if (line.startsWith('@@') || line.startsWith('-') || line.startsWith('\\')) continue;
+    rightSide.push(line.slice(1));
+  }
+  return rightSide.slice(-count);
+}
+
+/**
+ * Parse a line-anchored review comment posted by CodeRabbit
+ */
+export function parseInlineComment(body: string, anchor: InlineAnchor): CodeRabbitIssue | null {
+  const lines = stripHtmlComments(body).split('\n');
+  let index = 0;
+
+  while (index < lines.length && lines[index].trim() === '') index++;
+  if (index >= lines.length) return null;
+
+  // Header looks like: _⚠️ Potential issue_ | _🟠 Major_
+  let category: FindingCategory = 'additional';
+  let severityLabel: string | undefined;
+  const headerMatch = lines[index].trim().match(/^_(.+?)_(?:\s*\|\s*_(.+?)_)?\s*$/);
+  if (headerMatch) {
+    category = mapCategory(headerMatch[1]) ?? 'additional';
+    severityLabel = headerMatch[2];
+    index++;
+  }
+
+  while (index < lines.length && lines[index].trim() === '') index++;
+
+  let title = '';
+  const titleMatch = lines[index]?.trim().match(/^\*\*(.+?)\*\*\s*$/);
+  if (titleMatch) {
+    title = titleMatch[1];
+    index++;
+  }
+
+  const content = lines.slice(index);
+  if (!title) {
+    // Fall back to the first prose line as the message
+    const firstProse = content.find(line => line.trim() && !line.trim().startsWith('<') && !line.trim().startsWith('```'));
+    if (!firstProse) return null;
+    title = firstProse.trim();
+  }
+
+  const endLine = anchor.line ?? undefined;
+  const startLine = anchor.startLine ?? endLine;
+
+  const issue = buildIssue({
+    category: category === 'additional' ? 'verification' : category,
+    severityLabel,
+    file: anchor.path,
+    startLine,
+    endLine,
+    title,
+    content
+  });
+
+  // Keep the original lines so suggestions can be verified before applying them
+  if (anchor.diffHunk && startLine !== undefined && endLine !== undefined) {
+    issue.codeSnippet = extractHunkTargetLines(anchor.diffHunk, endLine - startLine + 1).join('\n');
+  }
+
+  return issue;
+}
+
+/**
+ * Extract the walkthrough summary and changed files from CodeRabbit's summary comment
+ */
+export function parseWalkthrough(body: string): { summary?: string; files: string[] } {
+  const text = stripHtmlComments(body);
+  const walkthroughMatch = text.match(/##\s*Walkthrough\s*\n([\s\S]*?)(?=\n##\s|$)/);
+  const changesMatch = text.match(/##\s*Changes\s*\n([\s\S]*?)(?=\n##\s|$)/);
+  const files = new Set<string>();
+
+  if (changesMatch) {
+    for (const row of changesMatch[1].split('\n')) {
+      const cells = row.split('|').map(cell => cell.trim()).filter(Boolean);
+      if (cells.length < 2 || /^:?-+:?$/.test(cells[0])) continue;
+      for (const match of cells[0].matchAll(/`([^`]+)`/g)) {
+        files.add(match[1]);
+      }
+    }
+  }
+
+  return {
+    summary: walkthroughMatch ? walkthroughMatch[1].trim() : undefined,
+    files: [...files]
+  };
+}
+
+/**
+ * Check whether a comment is CodeRabbit's "review in progress" placeholder
+ */
+export function isReviewInProgress(body: string): boolean {
+  return body.toLowerCase().includes(REVIEW_IN_PROGRESS_MARKER);
+}
+
+/**
+ * Detect the review state CodeRabbit signals in a comment, if any
+ */
+export function detectReviewState(body: string): 'in_progress' | 'skipped' | 'paused' | null {
+  const normalized = body.toLowerCase();
+  if (normalized.includes(REVIEW_IN_PROGRESS_MARKER)) return 'in_progress';
+  if (REVIEW_PAUSED_MARKERS.some(marker => normalized.includes(marker))) return 'paused';
+  if (REVIEW_SKIPPED_MARKERS.some(marker => normalized.includes(marker))) return 'skipped';
+  return null;
+}
+
+/**
+ * Compute review statistics from parsed findings
+ */
+export function computeReviewStats(
+  issues: CodeRabbitIssue[],
+  options: { filesReviewed?: number; linesAnalyzed?: number } = {}
+): ReviewStats {
+  const filesWithIssues = new Set(issues.map(issue => issue.file)).size;
+  const count = (severity: CodeRabbitIssue['severity']) =>
+    issues.filter(issue => issue.severity === severity).length;
+
+  return {
+    filesReviewed: Math.max(options.filesReviewed ?? 0, filesWithIssues),
+    linesAnalyzed: options.linesAnalyzed ?? 0,
+    issuesFound: issues.length,
+    criticalCount: count('critical'),
+    highCount: count('high'),
+    mediumCount: count('medium'),
+    lowCount: count('low')
+  };
+}
+
+/**
+ * Build a structured review from CodeRabbit's issue comments, review summaries
+ * and (optionally) line-anchored review comments on a pull request
+ */
+export function buildStructuredReview(params: {
+  repository: string;
+  prNumber: number;
+  comments: RawCodeRabbitBody[];
+  reviews: RawCodeRabbitBody[];
+  inlineComments?: Array<RawCodeRabbitBody & InlineAnchor>;
+  url?: string;
+}): CodeRabbitReview {
+  const issues = new Map<string, CodeRabbitIssue>();
+  let summary: string | undefined;
+  let filesReviewed = 0;
+  let inProgress = false;
+
+  for (const comment of params.comments) {
+    if (isReviewInProgress(comment.body)) inProgress = true;
+    const walkthrough = parseWalkthrough(comment.body);
+    if (walkthrough.summary) {
+      summary = walkthrough.summary;
+      filesReviewed = Math.max(filesReviewed, walkthrough.files.length);
+    }
+  }
+
+  for (const review of params.reviews) {
+    const processed = review.body.match(/Files selected for processing \((\d+)\)/i);
+    if (processed) filesReviewed = Math.max(filesReviewed, parseInt(processed[1], 10));
+    for (const issue of parseReviewBody(review.body)) {
+      issues.set(issue.id, issue);
+    }
+  }
+
+  for (const comment of params.inlineComments ?? []) {
+    const issue = parseInlineComment(comment.body, comment);
+    if (issue) issues.set(issue.id, issue);
+  }
+
+  const timestamps = [...params.comments, ...params.reviews]
+    .map(item => item.submitted_at || item.created_at)
+    .filter((value): value is string => Boolean(value))
+    .map(value => new Date(value).getTime())
+    .sort((a, b) => a - b);
+
+  const issueList = [...issues.values()];
+  const hasActivity = timestamps.length > 0;
+
+  return {
+    id: `${params.repository}#${params.prNumber}`,
+    repository: params.repository,
+    prNumber: params.prNumber,
+    status: inProgress ? 'in_progress' : hasActivity ? 'completed' : 'pending',
+    summary,
+    issues: issueList,
+    stats: computeReviewStats(issueList, { filesReviewed }),
+    createdAt: new Date(hasActivity ? timestamps[0] : Date.now()),
+    completedAt: hasActivity && !inProgress ? new Date(timestamps[timestamps.length - 1]) : undefined,
+    url: params.url
+  };
+}
+
+/**
+ * Render a structured review as compact markdown grouped by severity
+ */
+export function formatStructuredReview(review: CodeRabbitReview): string {
+  let content = `## CodeRabbit Findings for ${review.id}\n\n`;
+  content += `**Status:** ${review.status}\n`;
+  if (review.stats) {
+    const stats = review.stats;
+    content += `**Files reviewed:** ${stats.filesReviewed}\n`;
+    content += `**Findings:** ${stats.issuesFound} (critical: ${stats.criticalCount}, high: ${stats.highCount}, medium: ${stats.mediumCount}, low: ${stats.lowCount})\n`;
+  }
+  if (review.url) {
+    content += `**URL:** ${review.url}\n`;
+  }
+  if (review.summary) {
+    content += `\n### Summary\n${review.summary}\n`;
+  }
+
+  for (const severity of SEVERITY_ORDER) {
+    const issues = review.issues.filter(issue => issue.severity === severity);
+    if (issues.length === 0) continue;
+
+    content += `\n### ${severity.toUpperCase()} (${issues.length})\n\n`;
+    for (const issue of issues) {
+      const range = issue.line
+        ? issue.endLine && issue.endLine !== issue.line ? `:${issue.line}-${issue.endLine}` : `:${issue.line}`
+        : '';
+      content += `- **[${issue.id}]** \`${issue.file}${range}\` (${issue.type}) ${issue.message}\n`;
+      if (issue.suggestion) {
+        content += `  ${issue.suggestion.replace(/\n+/g, ' ').slice(0, 300)}\n`;
+      }
+      if (issue.fix) {
+        content += `\n\`\`\`${issue.fixFormat === 'diff' ? 'diff' : ''}\n${issue.fix}\n\`\`\`\n\n`;
+      }
+    }
+  }
+
+  return content;
+}
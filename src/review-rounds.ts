@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import { CodeRabbitIssue } from './types.js';
+import { parseInlineComment, parseReviewBody, SEVERITY_ORDER } from './review-parser.js';
+
+// Findings further apart than this are different findings, even with the same wording
+const MAX_LINE_DRIFT = 30;
+
+// Share of words two messages must have in common to match when their wording changed
+const MIN_MESSAGE_SIMILARITY = 0.6;
+
+// A finding of one review round; thread state is only known for line-level comments
+export interface RoundFinding extends CodeRabbitIssue {
+  threadOpen?: boolean; // Thread is unresolved and still anchored to current code
+}
+
+// All CodeRabbit reviews of one head commit
+export interface ReviewRound {
+  sha: string;
+  submittedAt: string; // First review of the commit
+  reviewIds: number[];
+  findings: RoundFinding[];
+}
+
+export interface MatchedFinding {
+  finding: RoundFinding;
+  previous: RoundFinding;
+  lineDrift?: number;
+}
+
+export interface ReviewRoundDiff {
+  base: ReviewRound;
+  head: ReviewRound;
+  new: RoundFinding[];
+  resolved: RoundFinding[];
+  stillOpen: Array<MatchedFinding | { finding: RoundFinding; previous?: undefined }>; // Without previous: not repeated, thread still open
+}
+
+/**
+ * Group CodeRabbit reviews and their line-level comments into rounds by reviewed commit, oldest first
+ */
+export function groupReviewRounds(
+  reviews: Array<{ id: number; body: string; submitted_at: string | null; commit_id: string | null }>,
+  comments: Array<{
+    review_id: number | null;
+    in_reply_to_id?: number;
+    body: string;
+    path: string;
+    line: number | null;
+    start_line: number | null;
+    diff_hunk?: string;
+    is_resolved?: boolean;
+    is_outdated?: boolean;
+  }>
+): ReviewRound[] {
+  const rounds = new Map<string, ReviewRound>();
+
+  const submitted = reviews
+    .filter((review): review is typeof review & { submitted_at: string; commit_id: string } => Boolean(review.submitted_at && review.commit_id))
+    .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+
+  for (const review of submitted) {
+    const round = rounds.get(review.commit_id) ?? { sha: review.commit_id, submittedAt: review.submitted_at, reviewIds: [], findings: [] };
+    round.reviewIds.push(review.id);
+    round.findings.push(...parseReviewBody(review.body));
+
+    for (const comment of comments) {
+      if (comment.review_id !== review.id || comment.in_reply_to_id) continue;
+      const issue = parseInlineComment(comment.body, {
+        path: comment.path,
+        line: comment.line,
+        startLine: comment.start_line,
+        diffHunk: comment.diff_hunk
+      });
+      if (!issue) continue;
+      const threadOpen = comment.is_resolved === undefined ? undefined : !comment.is_resolved && !comment.is_outdated;
+      round.findings.push({ ...issue, ...(threadOpen !== undefined && { threadOpen }) });
+    }
+    rounds.set(review.commit_id, round);
+  }
+
+  return [...rounds.values()];
+}
+
+/**
+ * Pick the rounds to compare by (abbreviated) head SHA, defaulting to the last two rounds
+ * Without a base, the round before the head round is used.
+ */
+export function selectReviewRounds(rounds: ReviewRound[], shas: { baseSha?: string; headSha?: string } = {}): { base: ReviewRound; head: ReviewRound } {
+  const find = (sha: string) => {
+    const matches = rounds.filter(round => round.sha.startsWith(sha.toLowerCase()));
+    if (matches.length === 0) {
+      throw new Error(`CodeRabbit has not reviewed commit ${sha} on this PR (reviewed: ${rounds.map(round => round.sha.slice(0, 7)).join(', ') || 'none'})`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Commit ${sha} is ambiguous; pass more characters of the SHA`);
+    }
+    return rounds.indexOf(matches[0]);
+  };
+
+  const headIndex = shas.headSha ? find(shas.headSha) : rounds.length - 1;
+  const baseIndex = shas.baseSha ? find(shas.baseSha) : headIndex - 1;
+  if (baseIndex < 0) {
+    throw new Error(`Need two CodeRabbit review rounds to compare, but ${shas.headSha ? 'none precedes the head round' : `found ${rounds.length}`}`);
+  }
+  if (baseIndex === headIndex) {
+    throw new Error('Base and head must be different review rounds');
+  }
+  return { base: rounds[baseIndex], head: rounds[headIndex] };
+}
+
+function normalizeMessage(message: string): string {
+  return message
+    .toLowerCase()
+    .replace(/`[^`]*`/g, '`code`')
+    .replace(/\d+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Fingerprint of a finding's file and wording, independent of its line
+ * Numbers and inline code are masked so line references and renamed identifiers do not matter.
+ */
+export function fingerprintFinding(finding: CodeRabbitIssue): string {
+  return createHash('sha1').update(`${finding.file}\n${normalizeMessage(finding.message)}`).digest('hex').slice(0, 12);
+}
+
+function messageSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeMessage(a).split(' '));
+  const wordsB = new Set(normalizeMessage(b).split(' '));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / Math.max(wordsA.size, wordsB.size, 1);
+}
+
+function getLineDrift(a: CodeRabbitIssue, b: CodeRabbitIssue): number | undefined {
+  return a.line !== undefined && b.line !== undefined ? b.line - a.line : undefined;
+}
+
+/**
+ * Find the earlier finding a later one repeats: same file and fingerprint within the line drift,
+ * or failing that, similar wording at nearly the same place
+ */
+function findPrevious(finding: RoundFinding, candidates: RoundFinding[]): RoundFinding | undefined {
+  const sameFile = candidates.filter(candidate => candidate.file === finding.file);
+  const byDistance = (a: RoundFinding, b: RoundFinding) =>
+    Math.abs(getLineDrift(a, finding) ?? 0) - Math.abs(getLineDrift(b, finding) ?? 0);
+  const withinDrift = (candidate: RoundFinding) => Math.abs(getLineDrift(candidate, finding) ?? 0) <= MAX_LINE_DRIFT;
+
+  const fingerprint = fingerprintFinding(finding);
+  const exact = sameFile.filter(candidate => fingerprintFinding(candidate) === fingerprint && withinDrift(candidate)).sort(byDistance);
+  if (exact.length > 0) return exact[0];
+
+  return sameFile
+    .filter(candidate => withinDrift(candidate) && messageSimilarity(candidate.message, finding.message) >= MIN_MESSAGE_SIMILARITY)
+    .sort(byDistance)[0];
+}
+
+/**
+ * Compare the findings of two review rounds
+ * Findings of the base round that the head round does not repeat count as resolved,
+ * unless their thread is still open and anchored to current code.
+ */
+export function diffReviewRounds(base: ReviewRound, head: ReviewRound): ReviewRoundDiff {
+  const unmatched = [...base.findings];
+  const diff: ReviewRoundDiff = { base, head, new: [], resolved: [], stillOpen: [] };
+
+  for (const finding of head.findings) {
+    const previous = findPrevious(finding, unmatched);
+    if (!previous) {
+      diff.new.push(finding);
+      continue;
+    }
+    unmatched.splice(unmatched.indexOf(previous), 1);
+    const lineDrift = getLineDrift(previous, finding);
+    diff.stillOpen.push({ finding, previous, ...(lineDrift !== undefined && { lineDrift }) });
+  }
+
+  for (const finding of unmatched) {
+    if (finding.threadOpen) {
+      diff.stillOpen.push({ finding });
+    } else {
+      diff.resolved.push(finding);
+    }
+  }
+  return diff;
+}
+
+function formatFinding(finding: RoundFinding): string {
+  const location = finding.line !== undefined
+    ? `${finding.file}:${finding.endLine && finding.endLine !== finding.line ? `${finding.line}-${finding.endLine}` : finding.line}`
+    : finding.file;
+  return `- **[${finding.severity}]** \`${location}\`: ${finding.message}`;
+}
+
+function sortBySeverity<T>(items: T[], getFinding: (item: T) => RoundFinding): T[] {
+  return [...items].sort((a, b) => SEVERITY_ORDER.indexOf(getFinding(a).severity) - SEVERITY_ORDER.indexOf(getFinding(b).severity));
+}
+
+/**
+ * Render a review round comparison as markdown, most severe findings first
+ */
+export function formatReviewRoundDiff(diff: ReviewRoundDiff): string {
+  let content = `## CodeRabbit Findings: ${diff.base.sha.slice(0, 7)} → ${diff.head.sha.slice(0, 7)}\n\n`;
+  content += `**Base round:** ${diff.base.sha} (reviewed ${diff.base.submittedAt}, ${diff.base.findings.length} finding(s))\n`;
+  content += `**Head round:** ${diff.head.sha} (reviewed ${diff.head.submittedAt}, ${diff.head.findings.length} finding(s))\n`;
+  content += `**New:** ${diff.new.length} | **Resolved:** ${diff.resolved.length} | **Still open:** ${diff.stillOpen.length}\n\n`;
+
+  if (diff.new.length > 0) {
+    content += `### 🆕 New\n\n${sortBySeverity(diff.new, finding => finding).map(formatFinding).join('\n')}\n\n`;
+  }
+  if (diff.resolved.length > 0) {
+    content += `### ✅ Resolved\n\n${sortBySeverity(diff.resolved, finding => finding).map(formatFinding).join('\n')}\n\n`;
+  }
+  if (diff.stillOpen.length > 0) {
+    const lines = sortBySeverity(diff.stillOpen, item => item.finding).map(item => {
+      let note = ' (thread still open, not repeated)';
+      if (item.previous) {
+        note = item.lineDrift ? ` (moved ${item.lineDrift > 0 ? '+' : ''}${item.lineDrift} lines)` : '';
+      }
+      return formatFinding(item.finding) + note;
+    });
+    content += `### ⏳ Still Open\n\n${lines.join('\n')}\n\n`;
+  }
+  if (diff.new.length === 0 && diff.stillOpen.length === 0) {
+    content += 'No open findings in the head round.\n';
+  }
+  return content;
+}
@@ -1,34 +1,279 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ServerRequest, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
+import * as os from 'os';
+import * as path from 'path';
 import { CodeRabbitClient } from './coderabbit-client.js';
 import { GitHubIntegration } from './github-integration.js';
+import { SimpleCache } from './cache.js';
+import { CacheStorage, FileCacheStorage } from './cache-storage.js';
+import { startHttpServer, HttpServerHandle } from './http-transport.js';
 import {
   GenerateReportSchema,
+  GenerateReportRequestSchema,
+  GetReportJobSchema,
+  ReportJobActionSchema,
   CreatePRSchema,
+  PushChangesAndCreatePRSchema,
   GetCodeRabbitCommentsSchema,
-  AskCodeRabbitInPRSchema
+  GetCodeRabbitReviewCommentsSchema,
+  WaitForCodeRabbitReviewSchema,
+  ApplyCodeRabbitSuggestionsSchema,
+  AskCodeRabbitInPRSchema,
+  AskCodeRabbitInPRRequestSchema,
+  GetCodeRabbitReplySchema,
+  ReplyToReviewCommentSchema,
+  ResolveReviewThreadSchema,
+  GetPullRequestDashboardSchema,
+  GetPullRequestDashboardRequestSchema,
+  GetReviewHistorySchema,
+  CompareCodeRabbitReviewsSchema,
+  RunCodeRabbitCommandSchema,
+  RunCodeRabbitCommandRequestSchema,
+  GetCodeRabbitConfigSchema,
+  UpdateCodeRabbitConfigSchema,
+  GetLocalDiffSchema,
+  DeveloperActivityReport
 } from './types.js';
+import { formatStructuredReview } from './review-parser.js';
+import { renderReport, writeReportFile } from './report-format.js';
+import {
+  CODERABBIT_CONFIG_FILE,
+  applyConfigEdits,
+  formatConfigValidation,
+  getLocalConfigPath,
+  readLocalConfig,
+  validateCodeRabbitConfig,
+  writeLocalConfig
+} from './coderabbit-config.js';
+import { registerResources, reportResourceUri } from './resources.js';
+import { registerPrompts } from './prompts.js';
+import { ReportJobManager, ReportJob, ReportOutput, isTerminalStatus } from './report-jobs.js';
+import { LocalDiff } from './local-diff.js';
+import { formatCodeRabbitCommand } from './coderabbit-commands.js';
+import { formatPullRequestDashboard } from './pr-dashboard.js';
+import { formatReviewHistory } from './review-history.js';
+import { diffReviewRounds, formatReviewRoundDiff, selectReviewRounds } from './review-rounds.js';
 
 // Load environment variables
 dotenv.config();
 
+// Defaults for the Streamable HTTP transport
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+
+// Waiting for CodeRabbit to reply to a posted command
+const DEFAULT_REPLY_TIMEOUT_SECONDS = 120;
+const REPLY_POLL_INTERVAL_MS = 5000;
+
+const DEFAULT_CLOSED_WITHIN_DAYS = 7;
+
+export interface ServerOptions {
+  transport?: 'stdio' | 'http';
+  host?: string;
+  port?: number;
+  authToken?: string;
+  localTools?: boolean; // Allow HTTP clients to use the server's working directory (default: MCP_HTTP_LOCAL_TOOLS)
+}
+
 /**
- * Start the CodeRabbit MCP Server
+ * Refuse to touch the server's working directory for clients that may not do so
  */
-export async function startServer() {
-  // Validate required environment variables
-  const CODERABBIT_API_KEY = process.env.CODERABBIT_API_KEY;
-  const CODERABBIT_API_URL = process.env.CODERABBIT_API_URL || 'https://api.coderabbit.ai';
-  const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+function assertLocalAccess(localAccess: boolean, action: string, alternative = 'set MCP_HTTP_LOCAL_TOOLS=true on the server to allow it'): void {
+  if (!localAccess) {
+    throw new Error(`${action} uses the server's working directory, which is disabled over HTTP; ${alternative}`);
+  }
+}
 
-  if (!CODERABBIT_API_KEY) {
-    throw new Error('CODERABBIT_API_KEY environment variable is required');
+function isVerbose(): boolean {
+  return process.env.LOG_LEVEL === 'info' || process.env.LOG_LEVEL === 'debug' || !!process.env.DEBUG;
+}
+
+/**
+ * Byte budget per cache from CACHE_MAX_MB (undefined keeps the defaults)
+ */
+function getCacheMaxBytes(): number | undefined {
+  const maxMegabytes = parseInt(process.env.CACHE_MAX_MB || '', 10);
+  return Number.isFinite(maxMegabytes) && maxMegabytes > 0 ? maxMegabytes * 1024 * 1024 : undefined;
+}
+
+/**
+ * Create on-disk cache storage in a subdirectory of the cache directory
+ * Falls back to in-memory storage (undefined) when persistence is disabled or the directory is not writable
+ */
+function createCacheStorage<T>(name: string): CacheStorage<T> | undefined {
+  const cacheDir = (process.env.CACHE_DIR || path.join(os.homedir(), '.cache', 'coderabbit-mcp'))
+    .replace(/^~(?=$|\/)/, os.homedir());
+  if (cacheDir === 'none') return undefined;
+
+  try {
+    return new FileCacheStorage<T>(path.join(cacheDir, name), getCacheMaxBytes());
+  } catch (error) {
+    console.error(`Could not use cache directory ${cacheDir}, falling back to memory:`, error);
+    return undefined;
   }
-  // Initialize clients
-  const coderabbitClient = new CodeRabbitClient(CODERABBIT_API_KEY, CODERABBIT_API_URL, GITHUB_TOKEN);
-  const githubIntegration = GITHUB_TOKEN ? new GitHubIntegration(GITHUB_TOKEN) : null;
+}
+
+/**
+ * Create a progress callback that sends MCP progress notifications
+ * when the client supplied a progress token, and does nothing otherwise
+ */
+function createProgressReporter(extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  const progressToken = extra._meta?.progressToken;
+
+  return async (progress: number, total: number | undefined, message: string) => {
+    if (progressToken === undefined) return;
+    try {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message }
+      });
+    } catch (error) {
+      console.error('Failed to send progress notification:', error);
+    }
+  };
+}
+
+/**
+ * Render a report job's status
+ */
+function formatReportJob(job: ReportJob): string {
+  let content = `## Report Job: ${job.status}\n\n`;
+  content += `**Job ID:** ${job.id}\n`;
+  content += `**Period:** ${job.params.from} to ${job.params.to}\n`;
+  content += `**Attempts:** ${job.attempts}\n`;
+  if (job.startedAt) {
+    const elapsedMs = (job.finishedAt ?? new Date()).getTime() - job.startedAt.getTime();
+    content += `**Elapsed:** ${Math.round(elapsedMs / 1000)}s\n`;
+  }
+  if (job.error) {
+    content += `**Error:** ${job.error}\n`;
+  }
+  if (job.status === 'failed' || job.status === 'cancelled') {
+    content += `\nCall retryReportJob with jobId "${job.id}" to run it again with the same parameters.\n`;
+  }
+  return content;
+}
+
+/**
+ * Render a finished report in the requested format, writing it to the workspace when an output path is given
+ */
+async function formatReport(job: ReportJob, report: DeveloperActivityReport | null, output: ReportOutput): Promise<string> {
+  if (report === null) {
+    return `${formatReportJob(job)}\nThe report has expired from the cache. Call generateReport again to regenerate it.\n`;
+  }
+
+  const format = output.format ?? 'markdown';
+  const rendered = renderReport(report, format);
+
+  let content = `**Resource:** ${reportResourceUri(job.reportId)}\n`;
+  if (output.outputPath) {
+    const written = await writeReportFile(process.cwd(), output.outputPath, rendered);
+    content += `**Saved to:** ${written}\n`;
+  }
+  content += '\n';
+
+  if (format === 'markdown') {
+    content += rendered;
+  } else {
+    content += '```' + format + '\n' + rendered.trimEnd() + '\n```';
+  }
+  return content;
+}
+
+/**
+ * Render local changes as per-section file tables followed by the included diffs
+ */
+function formatLocalDiff(diff: LocalDiff): string {
+  let content = `## Local Changes\n\n`;
+  content += `**Branch:** ${diff.branch}\n`;
+  if (diff.base) {
+    content += `**Base:** ${diff.base}\n`;
+  }
+
+  for (const section of diff.sections) {
+    content += `\n### ${section.kind} (${section.range}): ${section.files.length} file(s)\n`;
+    if (section.files.length === 0) continue;
+
+    content += `\n| File | + | - | Note |\n|---|---|---|---|\n`;
+    for (const file of section.files) {
+      const name = file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+      const note = file.binary ? 'binary' : file.large ? 'diff too large' : '';
+      content += `| ${name} | ${file.additions} | ${file.deletions} | ${note} |\n`;
+    }
+    for (const file of section.files) {
+      if (file.diff) {
+        content += `\n\`\`\`diff\n${file.diff.trimEnd()}\n\`\`\`\n`;
+      }
+    }
+  }
+
+  if (diff.untracked.length > 0) {
+    content += `\n### Untracked files (${diff.untracked.length})\nNot part of any diff until added:\n`;
+    content += diff.untracked.map(file => `- ${file}`).join('\n') + '\n';
+  }
+  if (diff.skipped.length > 0) {
+    content += `\n### Not diffed (${diff.skipped.length})\nListed by name only, the total limit was reached:\n`;
+    content += diff.skipped.map(file => {
+      const name = file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+      return `- ${file.kind}: ${file.status} ${name}`;
+    }).join('\n') + '\n';
+  }
+  if (diff.truncated) {
+    content += `\n⚠️ Diffs stopped after ${diff.totalChars} characters. Narrow the paths or raise maxTotalChars to see the rest.\n`;
+  }
+  return content;
+}
+
+/**
+ * Render CodeRabbit's reply, or how to collect it later when it has not arrived yet
+ */
+function formatCodeRabbitReply(
+  result: { reply?: { body: string; html_url: string }; elapsedMs: number },
+  handle: { owner: string; repo: string; prNumber: number; commentId: number }
+): string {
+  if (!result.reply) {
+    return `⏱️ CodeRabbit has not answered yet (waited ${Math.round(result.elapsedMs / 1000)}s). ` +
+      `Call getCodeRabbitReply with owner "${handle.owner}", repo "${handle.repo}", prNumber ${handle.prNumber} and commentId ${handle.commentId} to collect the answer later.\n`;
+  }
+  let content = `### CodeRabbit's Answer (after ${Math.round(result.elapsedMs / 1000)}s)\n\n`;
+  content += `${result.reply.body}\n\n`;
+  content += `[View on GitHub](${result.reply.html_url})\n`;
+  return content;
+}
+
+/**
+ * Note repository details inferred from the local checkout so the agent can confirm them
+ */
+function formatInferred(inferred: string[]): string {
+  if (inferred.length === 0) return '';
+  return `> Inferred from the local git checkout: ${inferred.join('; ')}. Pass owner, repo and prNumber explicitly if this is wrong.\n\n`;
+}
+
+/**
+ * Pick where .coderabbit.yaml lives: a GitHub repository when owner and repo are given, otherwise null for the local working tree
+ */
+function getConfigRepository(params: { owner?: string; repo?: string }): { owner: string; repo: string } | null {
+  if (!params.owner && !params.repo) return null;
+  if (!params.owner || !params.repo) {
+    throw new Error('Provide both owner and repo, or neither to use the local working tree');
+  }
+  return { owner: params.owner, repo: params.repo };
+}
 
+/**
+ * Create an MCP server with all tools registered
+ * Called once for stdio and once per session for HTTP. Without local access, tools that
+ * read or change the server's working directory are left out or refuse those options.
+ */
+function createMcpServer(
+  coderabbitClient: CodeRabbitClient,
+  githubIntegration: GitHubIntegration | null,
+  reportJobs: ReportJobManager,
+  localAccess: boolean
+): McpServer {
   // Create MCP server
   const server = new McpServer({
     name: 'coderabbit-mcp',
@@ -39,32 +284,35 @@ export async function startServer() {
 
   /**
    * Tool: Generate developer activity report (REAL API)
+   * Starts a background job and returns immediately; reports take up to 10 minutes
    */
   server.registerTool(
     'generateReport',
     {
       title: 'Generate Developer Activity Report',
-      description: 'Generate a developer activity report (Beta) - May take up to 10 minutes',
+      description: 'Start generating a developer activity report (Beta) and return a job ID immediately. Use getReportJob to follow progress and fetch the report',
       inputSchema: GenerateReportSchema.shape
     },
     async (args) => {
       try {
-        const params = GenerateReportSchema.parse(args);
+        const params = GenerateReportRequestSchema.parse(args);
+        if (params.outputPath) {
+          assertLocalAccess(localAccess, 'Saving the report to outputPath');
+        }
         if (process.env.LOG_LEVEL === 'debug' || process.env.DEBUG) {
-          console.error(`[generateReport] Generating report from ${params.from} to ${params.to}`);
+          console.error(`[generateReport] Starting report job from ${params.from} to ${params.to}`);
         }
         
-        const report = await coderabbitClient.generateReport(params);
-        
-        let content = `## Developer Activity Report\n\n`;
-        content += `**Period:** ${params.from} to ${params.to}\n\n`;
-        
-        if (typeof report === 'string') {
-          content += report;
-        } else {
-          content += '```json\n' + JSON.stringify(report, null, 2) + '\n```';
+        const job = reportJobs.start(params);
+        if (job.status === 'completed') {
+          return {
+            content: [{ type: 'text', text: await formatReport(job, reportJobs.getResult(job.id), job.output) }]
+          };
         }
 
+        let content = formatReportJob(job);
+        content += `\nReport generation can take up to 10 minutes. Call getReportJob with jobId "${job.id}" to check progress (pass waitSeconds to wait) or cancelReportJob to stop it.\n`;
+
         return {
           content: [{ type: 'text', text: content }]
         };
@@ -80,6 +328,310 @@ export async function startServer() {
     }
   );
 
+  /**
+   * Tool: Check a report job, optionally waiting for it, and return the report once done
+   */
+  server.registerTool(
+    'getReportJob',
+    {
+      title: 'Get Report Job',
+      description: 'Get the status of a generateReport job and the report once it has completed. Without a job ID, lists recent jobs',
+      inputSchema: GetReportJobSchema.shape
+    },
+    async (args, extra) => {
+      try {
+        const params = GetReportJobSchema.parse(args);
+        if (params.outputPath) {
+          assertLocalAccess(localAccess, 'Saving the report to outputPath');
+        }
+
+        if (!params.jobId) {
+          const jobs = reportJobs.list();
+          const content = jobs.length > 0
+            ? `## Report Jobs\n\n${jobs.map(job => `- \`${job.id}\` ${job.status} (${job.params.from} to ${job.params.to})`).join('\n')}\n`
+            : 'No report jobs found.';
+          return {
+            content: [{ type: 'text', text: content }]
+          };
+        }
+
+        let job = reportJobs.get(params.jobId);
+        if (job && !isTerminalStatus(job.status) && params.waitSeconds > 0) {
+          const timeoutMs = params.waitSeconds * 1000;
+          const reportProgress = createProgressReporter(extra);
+          job = await reportJobs.wait(params.jobId, {
+            timeoutMs,
+            signal: extra.signal,
+            onProgress: (current, elapsedMs) => reportProgress(
+              Math.min(elapsedMs, timeoutMs),
+              timeoutMs,
+              `Report job ${current.status}`
+            )
+          });
+        }
+
+        if (!job) {
+          throw new Error(`Report job ${params.jobId} not found`);
+        }
+
+        // Output options given here override those passed to generateReport
+        const output: ReportOutput = {
+          format: params.format ?? job.output.format,
+          outputPath: params.outputPath ?? job.output.outputPath
+        };
+        const content = job.status === 'completed'
+          ? await formatReport(job, reportJobs.getResult(job.id), output)
+          : formatReportJob(job);
+
+        return {
+          content: [{ type: 'text', text: content }]
+        };
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error getting report job: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+          }]
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Cancel a queued or running report job
+   */
+  server.registerTool(
+    'cancelReportJob',
+    {
+      title: 'Cancel Report Job',
+      description: 'Cancel a queued or running generateReport job',
+      inputSchema: ReportJobActionSchema.shape
+    },
+    async (args) => {
+      try {
+        const params = ReportJobActionSchema.parse(args);
+        const job = reportJobs.cancel(params.jobId);
+        return {
+          content: [{ type: 'text', text: `Cancellation requested.\n\n${formatReportJob(job)}` }]
+        };
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error cancelling report job: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+          }]
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Retry a failed or cancelled report job with its original parameters
+   */
+  server.registerTool(
+    'retryReportJob',
+    {
+      title: 'Retry Report Job',
+      description: 'Run a failed, timed-out or cancelled generateReport job again with its original parameters',
+      inputSchema: ReportJobActionSchema.shape
+    },
+    async (args) => {
+      try {
+        const params = ReportJobActionSchema.parse(args);
+        const job = reportJobs.retry(params.jobId);
+        return {
+          content: [{ type: 'text', text: `Job restarted.\n\n${formatReportJob(job)}` }]
+        };
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error retrying report job: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+          }]
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Read and validate .coderabbit.yaml from the local working tree or a GitHub repository
+   */
+  server.registerTool(
+    'getCodeRabbitConfig',
+    {
+      title: 'Get CodeRabbit Config',
+      description: `Read the repository's ${CODERABBIT_CONFIG_FILE} (local working tree, or GitHub when owner and repo are given), validate it and explain any errors`,
+      inputSchema: GetCodeRabbitConfigSchema.shape
+    },
+    async (args) => {
+      try {
+        const params = GetCodeRabbitConfigSchema.parse(args);
+        const repository = getConfigRepository(params);
+
+        let location: string;
+        let fileContent: string | null;
+        if (repository) {
+          if (!githubIntegration) {
+            throw new Error('Reading the config from GitHub requires GITHUB_TOKEN');
+          }
+          const file = await githubIntegration.getFileContent({ ...repository, path: CODERABBIT_CONFIG_FILE, ref: params.ref });
+          location = `${repository.owner}/${repository.repo}${params.ref ? `@${params.ref}` : ''}:${CODERABBIT_CONFIG_FILE}`;
+          fileContent = file?.content ?? null;
+        } else {
+          assertLocalAccess(localAccess, `Reading the local ${CODERABBIT_CONFIG_FILE}`, 'pass owner and repo to read it from GitHub');
+          location = await getLocalConfigPath();
+          fileContent = await readLocalConfig(location);
+        }
+
+        let content = `## CodeRabbit Config\n\n**Location:** ${location}\n`;
+        if (fileContent === null) {
+          content += `\nNo ${CODERABBIT_CONFIG_FILE} found, so CodeRabbit uses its defaults and the organization settings. Use updateCodeRabbitConfig to create one.\n`;
+        } else {
+          content += formatConfigValidation(validateCodeRabbitConfig(fileContent));
+          content += `\n### ${CODERABBIT_CONFIG_FILE}\n\`\`\`yaml\n${fileContent.trimEnd()}\n\`\`\`\n`;
+        }
+
+        return {
+          content: [{ type: 'text', text: content }]
+        };
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error reading CodeRabbit config: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+          }]
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Edit .coderabbit.yaml locally or through a pull request
+   * Replaces the deprecated configureReview API
+   */
+  server.registerTool(
+    'updateCodeRabbitConfig',
+    {
+      title: 'Update CodeRabbit Config',
+      description: `Change review profile, auto review, path filters and path instructions in ${CODERABBIT_CONFIG_FILE}, keeping comments. Writes the local file or opens a pull request; the result is validated before anything is written`,
+      inputSchema: UpdateCodeRabbitConfigSchema.shape
+    },
+    async (args) => {
+      try {
+        const params = UpdateCodeRabbitConfigSchema.parse(args);
+        const { owner, repo, target, branch, base, dryRun, ...edits } = params;
+        const repository = getConfigRepository({ owner, repo });
+
+        if (Object.values(edits).every(value => value === undefined)) {
+          throw new Error('No changes given');
+        }
+        if (target === 'local' && repository) {
+          throw new Error('Omit owner and repo to edit the local file, or set target to "pull_request"');
+        }
+
+        // Read the current file and prepare how the result is written
+        let current: string | null;
+        let write: (updated: string) => Promise<string>;
+        if (target === 'pull_request') {
+          if (!repository || !githubIntegration) {
+            throw new Error('Opening a pull request requires owner, repo and GITHUB_TOKEN');
+          }
+          const baseBranch = base ?? await githubIntegration.getDefaultBranch(repository.owner, repository.repo);
+          const file = await githubIntegration.getFileContent({ ...repository, path: CODERABBIT_CONFIG_FILE, ref: baseBranch });
+          current = file?.content ?? null;
+          write = async updated => {
+            const pr = await githubIntegration.createFileChangePR({
+              ...repository,
+              path: CODERABBIT_CONFIG_FILE,
+              content: updated,
+              sha: file?.sha,
+              branch: branch ?? `coderabbit-config-${Date.now()}`,
+              base: baseBranch,
+              title: `chore: ${file ? 'update' : 'add'} CodeRabbit configuration`,
+              body: `Updates \`${CODERABBIT_CONFIG_FILE}\`. CodeRabbit applies the new settings to reviews once this is merged.`
+            });
+            let text = `## CodeRabbit Config Pull Request Created\n\n`;
+            text += `**PR Number:** #${pr.number}\n`;
+            text += `**URL:** ${pr.url}\n`;
+            text += `**Branch:** ${pr.branch} → ${pr.base}\n`;
+            return text;
+          };
+        } else {
+          assertLocalAccess(localAccess, `Editing the local ${CODERABBIT_CONFIG_FILE}`, 'set target to "pull_request" to change it through a pull request');
+          const localPath = await getLocalConfigPath();
+          current = await readLocalConfig(localPath);
+          write = async updated => {
+            await writeLocalConfig(localPath, updated);
+            return `## CodeRabbit Config Updated\n\n**File:** ${localPath}\n`;
+          };
+        }
+
+        const updated = applyConfigEdits(current ?? '', edits);
+        if (updated === current) {
+          return {
+            content: [{ type: 'text', text: `No changes: ${CODERABBIT_CONFIG_FILE} already has these settings.` }]
+          };
+        }
+
+        const validation = validateCodeRabbitConfig(updated);
+        const preview = `\n### ${CODERABBIT_CONFIG_FILE}\n\`\`\`yaml\n${updated.trimEnd()}\n\`\`\`\n`;
+        if (!validation.valid || dryRun) {
+          let content = validation.valid
+            ? `## CodeRabbit Config Preview (dry run)\n\n`
+            : `## CodeRabbit Config Not Updated\n\nThe updated file would be invalid, so nothing was written.\n\n`;
+          content += formatConfigValidation(validation) + preview;
+          return {
+            content: [{ type: 'text', text: content }]
+          };
+        }
+
+        let content = await write(updated);
+        content += formatConfigValidation(validation) + preview;
+
+        return {
+          content: [{ type: 'text', text: content }]
+        };
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error updating CodeRabbit config: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+          }]
+        };
+      }
+    }
+  );
+
+  if (localAccess) {
+    /**
+     * Tool: Preview the local changes that would go into a CodeRabbit review
+     */
+    server.registerTool(
+      'getLocalDiff',
+      {
+        title: 'Get Local Diff',
+        description: 'Preview staged, unstaged and branch-vs-base changes in the local checkout with per-file stats, before creating a PR for CodeRabbit review',
+        inputSchema: GetLocalDiffSchema.shape
+      },
+      async (args) => {
+        try {
+          const params = GetLocalDiffSchema.parse(args);
+          const diff = await coderabbitClient.getLocalDiff(params);
+          return {
+            content: [{ type: 'text', text: formatLocalDiff(diff) }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error getting local diff: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+  }
+
   /**
    * GitHub Integration Tools (REAL - via GitHub API)
    */
@@ -100,7 +652,7 @@ export async function startServer() {
       },
       async (args: any) => {
         try {
-          const params = CreatePRSchema.parse(args);
+          const { inferred, ...params } = await githubIntegration.resolveRepository(CreatePRSchema.parse(args));
           const pr = await githubIntegration.createPullRequest({
             owner: params.owner,
             repo: params.repo,
@@ -114,10 +666,11 @@ export async function startServer() {
           content += `**PR Number:** #${pr.number}\n`;
           content += `**URL:** ${pr.url}\n`;
           content += `**Status:** ${pr.state}\n\n`;
-          content += `CodeRabbit will automatically review this PR within 1-2 minutes.`;
+          content += `CodeRabbit will automatically review this PR within 1-2 minutes. `;
+          content += `Use waitForCodeRabbitReview to wait for the review to finish.`;
 
           return {
-            content: [{ type: 'text', text: content }]
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
           };
         } catch (error) {
           return {
@@ -130,6 +683,77 @@ export async function startServer() {
       }
     );
 
+    if (localAccess) {
+      /**
+       * Tool: Push local changes to a new branch and open a PR for review
+       */
+      server.registerTool(
+        'pushChangesAndCreatePR',
+        {
+          title: 'Push Changes and Create PR',
+          description: 'Create a branch from the local checkout, commit and push it, and open a pull request for CodeRabbit review. Use isolated mode to leave the checkout untouched and dryRun to preview first.',
+          inputSchema: PushChangesAndCreatePRSchema.shape
+        },
+        async (args: any) => {
+          try {
+            const { inferred, ...params } = await githubIntegration.resolveRepository(PushChangesAndCreatePRSchema.parse(args));
+
+            if (params.dryRun) {
+              const preview = await githubIntegration.previewPushChangesAndCreatePR(params);
+
+              let content = `## Push and Create PR Preview (dry run)\n\n`;
+              content += `**Mode:** ${params.isolated ? 'isolated (temporary worktree)' : 'in-place checkout'}\n`;
+              content += `**Current branch:** ${preview.currentBranch}\n`;
+              content += `**New branch:** ${preview.branch}\n`;
+              content += `**Base:** ${preview.base}\n`;
+              content += `**Commit message:** ${preview.commitMessage}\n\n`;
+              content += `### Files to stage (${preview.filesToStage.length})\n`;
+              content += preview.filesToStage.length > 0
+                ? preview.filesToStage.map(file => `- ${file}`).join('\n') + '\n'
+                : 'None\n';
+              if (preview.untrackedExcluded.length > 0) {
+                content += `\n### Untracked files not included (${preview.untrackedExcluded.length})\n`;
+                content += preview.untrackedExcluded.map(file => `- ${file}`).join('\n') + '\n';
+              }
+              if (preview.commitsAhead.length > 0) {
+                content += `\n### Local commits ahead of origin/${preview.base} (${preview.commitsAhead.length})\n`;
+                content += preview.commitsAhead.map(commit => `- ${commit}`).join('\n') + '\n';
+              }
+              if (preview.blockers.length > 0) {
+                content += `\n### ⚠️ Blockers\n`;
+                content += preview.blockers.map(blocker => `- ${blocker}`).join('\n') + '\n';
+              }
+
+              return {
+                content: [{ type: 'text', text: formatInferred(inferred) + content }]
+              };
+            }
+
+            const result = await githubIntegration.pushChangesAndCreatePR(params);
+
+            let content = `## Changes Pushed and PR Created\n\n`;
+            content += `**Branch:** ${result.branch}\n`;
+            content += `**Base:** ${result.base}\n`;
+            content += `**Commit:** ${result.commitSha}\n`;
+            content += `**PR Number:** #${result.number}\n`;
+            content += `**URL:** ${result.url}\n\n`;
+            content += `CodeRabbit will automatically review this PR. Use waitForCodeRabbitReview to wait for the review to finish.`;
+
+            return {
+              content: [{ type: 'text', text: formatInferred(inferred) + content }]
+            };
+          } catch (error) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: `Error pushing changes: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+              }]
+            };
+          }
+        }
+      );
+    }
+
     /**
      * Tool: Get CodeRabbit comments from GitHub PR
      */
@@ -142,18 +766,40 @@ export async function startServer() {
       },
       async (args: any) => {
         try {
-          const params = GetCodeRabbitCommentsSchema.parse(args);
-          const comments = await githubIntegration.getCodeRabbitComments({
-            owner: params.owner,
-            repo: params.repo,
-            prNumber: params.prNumber
-          });
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(GetCodeRabbitCommentsSchema.parse(args));
+
+          if (params.format === 'structured') {
+            const review = await githubIntegration.getCodeRabbitFindings({
+              owner: params.owner,
+              repo: params.repo,
+              prNumber: params.prNumber,
+              maxItems: params.maxItems,
+              since: params.since
+            });
+
+            let text = formatStructuredReview(review);
+            if (review.truncated) {
+              text += `\n⚠️ Results truncated: more than ${params.maxItems} items exist on GitHub. Increase maxItems to see all findings.\n`;
+            }
+
+            return {
+              content: [{ type: 'text', text: formatInferred(inferred) + text }]
+            };
+          }
+
+          const { items: comments, truncated } = await githubIntegration.getCodeRabbitComments({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber,
+            maxItems: params.maxItems,
+            since: params.since
+          });
 
           if (comments.length === 0) {
             return {
               content: [{ 
                 type: 'text', 
-                text: 'No CodeRabbit comments found. The review might still be in progress or CodeRabbit is not installed for this repository.' 
+                text: formatInferred(inferred) + 'No CodeRabbit comments found. The review might still be in progress or CodeRabbit is not installed for this repository.' 
               }]
             };
           }
@@ -166,8 +812,12 @@ export async function startServer() {
             content += `[View on GitHub](${comment.html_url})\n\n`;
           }
 
+          if (truncated) {
+            content += `⚠️ Results truncated: more than ${params.maxItems} items exist on GitHub. Increase maxItems to see the rest.\n`;
+          }
+
           return {
-            content: [{ type: 'text', text: content }]
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
           };
         } catch (error) {
           return {
@@ -180,6 +830,191 @@ export async function startServer() {
       }
     );
 
+    /**
+     * Tool: Get CodeRabbit line-level review comments from GitHub PR
+     */
+    server.registerTool(
+      'getCodeRabbitReviewComments',
+      {
+        title: 'Get CodeRabbit Review Comments',
+        description: 'Get CodeRabbit inline review comments with file/line anchors, diff hunks and thread resolution state',
+        inputSchema: GetCodeRabbitReviewCommentsSchema.shape
+      },
+      async (args: any) => {
+        try {
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(GetCodeRabbitReviewCommentsSchema.parse(args));
+          const { items: allComments, truncated } = await githubIntegration.getCodeRabbitReviewComments({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber,
+            maxItems: params.maxItems,
+            since: params.since
+          });
+
+          const comments = allComments.filter(comment =>
+            (params.includeResolved || !comment.is_resolved) &&
+            (params.includeReplies || !comment.in_reply_to_id)
+          );
+
+          if (comments.length === 0) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: formatInferred(inferred) + 'No CodeRabbit review comments found. The review might still be in progress or all threads are filtered out.' 
+              }]
+            };
+          }
+
+          let content = `## CodeRabbit Review Comments (${comments.length})\n\n`;
+
+          for (const comment of comments) {
+            const range = comment.start_line && comment.start_line !== comment.line
+              ? `${comment.start_line}-${comment.line}`
+              : `${comment.line ?? 'outdated'}`;
+            const state = comment.is_resolved === undefined ? 'unknown' : comment.is_resolved ? 'resolved' : 'unresolved';
+
+            content += `### \`${comment.path}:${range}\` (${comment.side ?? 'RIGHT'})\n`;
+            content += `**Comment ID:** ${comment.id}`;
+            if (comment.in_reply_to_id) content += ` (reply to ${comment.in_reply_to_id})`;
+            content += `\n**Thread:** ${comment.thread_id ?? 'n/a'} (${state}${comment.is_outdated ? ', outdated' : ''})\n`;
+            content += `**Commit:** ${comment.commit_id}\n\n`;
+            content += '```diff\n' + comment.diff_hunk + '\n```\n\n';
+            content += `${comment.body}\n`;
+            content += `[View on GitHub](${comment.html_url})\n\n`;
+          }
+
+          if (truncated) {
+            content += `⚠️ Results truncated: more than ${params.maxItems} items exist on GitHub. Increase maxItems to see the rest.\n`;
+          }
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error getting review comments: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    /**
+     * Tool: Wait until CodeRabbit has reviewed the PR's latest head commit
+     */
+    server.registerTool(
+      'waitForCodeRabbitReview',
+      {
+        title: 'Wait for CodeRabbit Review',
+        description: 'Poll a GitHub PR until CodeRabbit has finished reviewing the latest head commit (or the timeout elapses), then return the structured findings',
+        inputSchema: WaitForCodeRabbitReviewSchema.shape
+      },
+      async (args: any, extra) => {
+        try {
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(WaitForCodeRabbitReviewSchema.parse(args));
+          const timeoutMs = params.timeoutSeconds * 1000;
+          const reportProgress = createProgressReporter(extra);
+
+          const result = await githubIntegration.waitForCodeRabbitReview({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber,
+            timeoutMs,
+            pollIntervalMs: params.pollIntervalSeconds * 1000,
+            signal: extra.signal,
+            onProgress: (status, elapsedMs) => reportProgress(
+              Math.min(elapsedMs, timeoutMs),
+              timeoutMs,
+              `CodeRabbit review ${status.state} for ${status.headSha.slice(0, 7)}`
+            )
+          });
+
+          const { status } = result;
+          let content = `## CodeRabbit Review Status: ${status.state}\n\n`;
+          content += `**Head SHA:** ${status.headSha}\n`;
+          if (status.reviewedSha) content += `**Last reviewed SHA:** ${status.reviewedSha}\n`;
+          if (status.checkStatus) content += `**Check status:** ${status.checkStatus}\n`;
+          content += `**Waited:** ${Math.round(result.elapsedMs / 1000)}s\n`;
+          if (status.detail) content += `\n${status.detail}\n`;
+
+          if (result.timedOut) {
+            content += `\n⏱️ Timed out after ${params.timeoutSeconds}s. Call waitForCodeRabbitReview again to keep waiting.\n`;
+          }
+          if (result.findings) {
+            content += `\n${formatStructuredReview(result.findings)}`;
+          }
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error waiting for review: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    if (localAccess) {
+      /**
+       * Tool: Apply CodeRabbit suggestions to local files
+       */
+      server.registerTool(
+        'applyCodeRabbitSuggestions',
+        {
+          title: 'Apply CodeRabbit Suggestions',
+          description: 'Apply CodeRabbit committable suggestions and diff fixes from a PR to the local working tree, verifying target lines first',
+          inputSchema: ApplyCodeRabbitSuggestionsSchema.shape
+        },
+        async (args: any) => {
+          try {
+            const { inferred, ...params } = await githubIntegration.resolvePullRequest(ApplyCodeRabbitSuggestionsSchema.parse(args));
+            const result = await githubIntegration.applyCodeRabbitSuggestions(params);
+
+            const applied = result.outcomes.filter(outcome => outcome.status === 'applied');
+            const conflicts = result.outcomes.filter(outcome => outcome.status === 'conflict');
+            const skipped = result.outcomes.filter(outcome => outcome.status === 'skipped');
+
+            let content = params.dryRun ? `## Suggestions Preview (dry run)\n\n` : `## Suggestions Applied\n\n`;
+            content += `**${params.dryRun ? 'Applicable' : 'Applied'}:** ${applied.length}\n`;
+            content += `**Conflicts:** ${conflicts.length}\n`;
+            content += `**Skipped:** ${skipped.length}\n`;
+            if (result.filesChanged.length > 0) {
+              content += `**Files:** ${result.filesChanged.join(', ')}\n`;
+            }
+
+            for (const outcome of result.outcomes) {
+              const location = outcome.file ? ` \`${outcome.file}${outcome.line ? `:${outcome.line}` : ''}\`` : '';
+              content += `- [${outcome.issueId}]${location} ${outcome.status}`;
+              if (outcome.drift) content += ` (moved ${outcome.drift > 0 ? '+' : ''}${outcome.drift} lines)`;
+              if (outcome.reason) content += ` — ${outcome.reason}`;
+              content += '\n';
+            }
+
+            if (result.diff) {
+              content += '\n```diff\n' + result.diff + '```\n';
+            }
+
+            return {
+              content: [{ type: 'text', text: formatInferred(inferred) + content }]
+            };
+          } catch (error) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: `Error applying suggestions: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+              }]
+            };
+          }
+        }
+      );
+    }
+
     /**
      * Tool: Ask CodeRabbit via GitHub comment
      */
@@ -187,12 +1022,12 @@ export async function startServer() {
       'askCodeRabbitInPR',
       {
         title: 'Ask CodeRabbit in PR',
-        description: 'Ask CodeRabbit a question by posting a comment in a GitHub PR',
+        description: 'Ask CodeRabbit a question by posting a comment in a GitHub PR, optionally waiting for the answer',
         inputSchema: AskCodeRabbitInPRSchema.shape
       },
-      async (args: any) => {
+      async (args: any, extra) => {
         try {
-          const params = AskCodeRabbitInPRSchema.parse(args);
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(AskCodeRabbitInPRRequestSchema.parse(args));
           const result = await githubIntegration.askCodeRabbit({
             owner: params.owner,
             repo: params.repo,
@@ -203,10 +1038,27 @@ export async function startServer() {
           let content = `## Question Posted to CodeRabbit\n\n`;
           content += `**Comment ID:** ${result.commentId}\n`;
           content += `**URL:** ${result.url}\n\n`;
-          content += result.message;
+
+          if (params.waitForReply) {
+            const timeoutMs = (params.timeoutSeconds ?? DEFAULT_REPLY_TIMEOUT_SECONDS) * 1000;
+            const reportProgress = createProgressReporter(extra);
+            const reply = await githubIntegration.waitForCodeRabbitReply({
+              owner: params.owner,
+              repo: params.repo,
+              prNumber: params.prNumber,
+              question: result.comment,
+              timeoutMs,
+              pollIntervalMs: REPLY_POLL_INTERVAL_MS,
+              signal: extra.signal,
+              onProgress: elapsedMs => reportProgress(Math.min(elapsedMs, timeoutMs), timeoutMs, 'Waiting for CodeRabbit to answer')
+            });
+            content += formatCodeRabbitReply(reply, { ...params, commentId: result.commentId });
+          } else {
+            content += `${result.message} Collect the answer with getCodeRabbitReply (commentId ${result.commentId}).`;
+          }
 
           return {
-            content: [{ type: 'text', text: content }]
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
           };
         } catch (error) {
           return {
@@ -218,20 +1070,415 @@ export async function startServer() {
         }
       }
     );
-  } else {
-    if (process.env.LOG_LEVEL === 'info' || process.env.LOG_LEVEL === 'debug' || process.env.DEBUG) {
-      console.error('GitHub integration disabled - set GITHUB_TOKEN to enable');
+
+    /**
+     * Tool: Collect CodeRabbit's answer to a question posted earlier
+     */
+    server.registerTool(
+      'getCodeRabbitReply',
+      {
+        title: 'Get CodeRabbit Reply',
+        description: 'Get CodeRabbit\'s answer to a question posted with askCodeRabbitInPR, optionally waiting for it',
+        inputSchema: GetCodeRabbitReplySchema.shape
+      },
+      async (args: any, extra) => {
+        try {
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(GetCodeRabbitReplySchema.parse(args));
+          const question = await githubIntegration.getPullRequestComment(params);
+          const timeoutMs = params.waitSeconds * 1000;
+          const reportProgress = createProgressReporter(extra);
+
+          const reply = await githubIntegration.waitForCodeRabbitReply({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber,
+            question,
+            timeoutMs,
+            pollIntervalMs: REPLY_POLL_INTERVAL_MS,
+            signal: extra.signal,
+            onProgress: elapsedMs => reportProgress(Math.min(elapsedMs, timeoutMs), timeoutMs, 'Waiting for CodeRabbit to answer')
+          });
+
+          let content = `## CodeRabbit Reply to Comment ${params.commentId}\n\n`;
+          content += `**Question:** ${question.html_url}\n\n`;
+          content += formatCodeRabbitReply(reply, params);
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error getting CodeRabbit reply: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    /**
+     * Tool: Reply inside a CodeRabbit review comment thread
+     */
+    server.registerTool(
+      'replyToReviewComment',
+      {
+        title: 'Reply to Review Comment',
+        description: 'Reply inside an existing review comment thread so CodeRabbit keeps the context of the finding',
+        inputSchema: ReplyToReviewCommentSchema.shape
+      },
+      async (args: any) => {
+        try {
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(ReplyToReviewCommentSchema.parse(args));
+          const result = await githubIntegration.replyToReviewComment({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber,
+            commentId: params.commentId,
+            body: params.body,
+            mentionCodeRabbit: params.mentionCodeRabbit
+          });
+
+          let content = `## Reply Posted\n\n`;
+          content += `**Comment ID:** ${result.commentId} (reply to ${result.inReplyToId})\n`;
+          content += `**File:** \`${result.path}\`\n`;
+          content += `**URL:** ${result.url}\n`;
+          if (params.mentionCodeRabbit) {
+            content += `\nCodeRabbit will respond in the thread.`;
+          }
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error replying to review comment: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    /**
+     * Tool: Resolve or unresolve a review thread
+     */
+    server.registerTool(
+      'resolveReviewThread',
+      {
+        title: 'Resolve Review Thread',
+        description: 'Resolve (or unresolve) the review thread containing a comment, e.g. once a fix has been pushed',
+        inputSchema: ResolveReviewThreadSchema.shape
+      },
+      async (args: any) => {
+        try {
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(ResolveReviewThreadSchema.parse(args));
+          const result = await githubIntegration.setReviewThreadResolved({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber,
+            commentId: params.commentId,
+            resolved: params.resolved
+          });
+
+          const state = result.isResolved ? 'resolved' : 'unresolved';
+          const content = result.changed
+            ? `Thread ${result.threadId} is now ${state}.`
+            : `Thread ${result.threadId} was already ${state}; nothing changed.`;
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error updating review thread: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    /**
+     * Tool: Dashboard of CodeRabbit review state across pull requests
+     */
+    server.registerTool(
+      'getPullRequestDashboard',
+      {
+        title: 'Pull Request Dashboard',
+        description: 'List open or recently closed PRs of a repository or organization with CodeRabbit\'s review state, unresolved findings by severity and pending questions, to see which PRs are ready to merge',
+        inputSchema: GetPullRequestDashboardSchema.shape
+      },
+      async (args: any) => {
+        try {
+          const request = GetPullRequestDashboardRequestSchema.parse(args);
+          const { inferred, ...params } = request.org
+            ? { ...request, owner: request.org, repo: undefined, inferred: [] }
+            : await githubIntegration.resolveRepository(request);
+
+          const closedWithinDays = params.closedWithinDays ?? DEFAULT_CLOSED_WITHIN_DAYS;
+          const closedSince = new Date(Date.now() - closedWithinDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+          const { entries, totalCount } = await githubIntegration.getPullRequestDashboard({
+            owner: params.owner,
+            repo: params.repo,
+            state: params.state,
+            closedSince: params.state === 'closed' ? closedSince : undefined,
+            maxPullRequests: params.maxPullRequests
+          });
+
+          const scope = params.repo ? `${params.owner}/${params.repo}` : params.owner;
+          const title = params.state === 'open'
+            ? `Open Pull Requests in ${scope}`
+            : `Pull Requests Closed in ${scope} Since ${closedSince}`;
+          let content = formatPullRequestDashboard(entries, title);
+          if (totalCount > entries.length) {
+            content += `\n⚠️ Showing the ${entries.length} most recently updated of ${totalCount} pull requests. Increase maxPullRequests to see more.\n`;
+          }
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error building pull request dashboard: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    /**
+     * Tool: CodeRabbit review history of a repository, built from GitHub
+     */
+    server.registerTool(
+      'getReviewHistory',
+      {
+        title: 'Get Review History',
+        description: 'List pull requests CodeRabbit reviewed in a period with their findings, plus trends such as findings per PR, most common issue types and hot files',
+        inputSchema: GetReviewHistorySchema.shape
+      },
+      async (args: any) => {
+        try {
+          const request = GetReviewHistorySchema.parse(args);
+          const [owner, repo] = request.repository?.split('/') ?? [];
+          const { inferred, ...params } = await githubIntegration.resolveRepository({ ...request, owner, repo });
+          const history = await githubIntegration.getReviewHistory({
+            owner: params.owner,
+            repo: params.repo,
+            limit: params.limit,
+            since: params.since,
+            until: params.until
+          });
+
+          const content = formatReviewHistory({
+            repository: `${params.owner}/${params.repo}`,
+            since: params.since,
+            until: params.until,
+            ...history
+          });
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error getting review history: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    /**
+     * Tool: Compare CodeRabbit's findings between two review rounds of a PR
+     */
+    server.registerTool(
+      'compareCodeRabbitReviews',
+      {
+        title: 'Compare CodeRabbit Reviews',
+        description: 'Compare CodeRabbit\'s findings for two reviewed head commits of a PR (default: the last two review rounds) and report new, resolved and still-open findings',
+        inputSchema: CompareCodeRabbitReviewsSchema.shape
+      },
+      async (args: any) => {
+        try {
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(CompareCodeRabbitReviewsSchema.parse(args));
+          const rounds = await githubIntegration.getCodeRabbitReviewRounds({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber
+          });
+          const { base, head } = selectReviewRounds(rounds, { baseSha: params.baseSha, headSha: params.headSha });
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + formatReviewRoundDiff(diffReviewRounds(base, head)) }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error comparing reviews: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+
+    /**
+     * Tool: Run a CodeRabbit chat command
+     */
+    server.registerTool(
+      'runCodeRabbitCommand',
+      {
+        title: 'Run CodeRabbit Command',
+        description: 'Post a CodeRabbit chat command (review, pause, resolve, generate unit tests, ...) in a GitHub PR and wait for CodeRabbit to acknowledge it',
+        inputSchema: RunCodeRabbitCommandSchema.shape
+      },
+      async (args: any, extra) => {
+        try {
+          const { inferred, ...params } = await githubIntegration.resolvePullRequest(RunCodeRabbitCommandRequestSchema.parse(args));
+          const posted = await githubIntegration.askCodeRabbit({
+            owner: params.owner,
+            repo: params.repo,
+            prNumber: params.prNumber,
+            question: formatCodeRabbitCommand(params)
+          });
+
+          let content = `## CodeRabbit Command: ${params.command}\n\n`;
+          content += `**Comment ID:** ${posted.commentId}\n`;
+          content += `**URL:** ${posted.url}\n`;
+
+          if (params.waitForAcknowledgment) {
+            const timeoutSeconds = params.timeoutSeconds ?? DEFAULT_REPLY_TIMEOUT_SECONDS;
+            const timeoutMs = timeoutSeconds * 1000;
+            const reportProgress = createProgressReporter(extra);
+
+            const result = await githubIntegration.waitForCodeRabbitReply({
+              owner: params.owner,
+              repo: params.repo,
+              prNumber: params.prNumber,
+              question: posted.comment,
+              timeoutMs,
+              pollIntervalMs: REPLY_POLL_INTERVAL_MS,
+              signal: extra.signal,
+              onProgress: elapsedMs => reportProgress(
+                Math.min(elapsedMs, timeoutMs),
+                timeoutMs,
+                `Waiting for CodeRabbit to acknowledge "${params.command}"`
+              )
+            });
+
+            if (result.reply) {
+              content += `\n### CodeRabbit Reply (after ${Math.round(result.elapsedMs / 1000)}s)\n\n`;
+              content += `${result.reply.body}\n\n`;
+              content += `[View on GitHub](${result.reply.html_url})\n`;
+            } else {
+              content += `\n⏱️ CodeRabbit has not replied within ${timeoutSeconds}s. Check the PR later with getCodeRabbitComments.\n`;
+            }
+          }
+
+          return {
+            content: [{ type: 'text', text: formatInferred(inferred) + content }]
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Error running CodeRabbit command: ${(error instanceof Error ? error.message : 'Unknown error')}` 
+            }]
+          };
+        }
+      }
+    );
+  }
+
+  registerResources(server, coderabbitClient, githubIntegration);
+  registerPrompts(server, githubIntegration, localAccess);
+
+  // Finished reports appear in the report resource list
+  const stopListening = reportJobs.onChange(job => {
+    if (job.status === 'completed' && !job.cached && server.isConnected()) {
+      server.sendResourceListChanged();
     }
+  });
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    previousOnClose?.();
+  };
+
+  return server;
+}
+
+/**
+ * Start the CodeRabbit MCP Server
+ * Options not given fall back to MCP_TRANSPORT, MCP_HOST, MCP_PORT, MCP_AUTH_TOKEN and MCP_HTTP_LOCAL_TOOLS.
+ * Returns the McpServer for stdio, or a handle to the HTTP listener.
+ */
+export async function startServer(options: ServerOptions = {}): Promise<McpServer | HttpServerHandle> {
+  // Validate required environment variables
+  const CODERABBIT_API_KEY = process.env.CODERABBIT_API_KEY;
+  const CODERABBIT_API_URL = process.env.CODERABBIT_API_URL || 'https://api.coderabbit.ai';
+  const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+  const CACHE_TTL = parseInt(process.env.CACHE_TTL || '', 10); // seconds
+
+  if (!CODERABBIT_API_KEY) {
+    throw new Error('CODERABBIT_API_KEY environment variable is required');
+  }
+  // Initialize clients
+  const reportCache = new SimpleCache<unknown>(undefined, 50, {
+    storage: createCacheStorage('reports'),
+    maxBytes: getCacheMaxBytes()
+  });
+  const coderabbitClient = new CodeRabbitClient(CODERABBIT_API_KEY, CODERABBIT_API_URL, GITHUB_TOKEN, { reportCache });
+  const githubIntegration = GITHUB_TOKEN
+    ? new GitHubIntegration(GITHUB_TOKEN, {
+      cacheTTL: Number.isFinite(CACHE_TTL) && CACHE_TTL > 0 ? CACHE_TTL * 1000 : undefined,
+      cacheStorage: createCacheStorage('github'),
+      cacheMaxBytes: getCacheMaxBytes(),
+      remoteHosts: (process.env.GITHUB_REMOTE_HOSTS || '').split(',').filter(host => host.trim())
+    })
+    : null;
+
+  if (!githubIntegration && isVerbose()) {
+    console.error('GitHub integration disabled - set GITHUB_TOKEN to enable');
+  }
+
+  // Shared by all sessions so jobs can be followed from any client
+  const reportJobs = new ReportJobManager(coderabbitClient);
+
+  const transport = options.transport ?? (process.env.MCP_TRANSPORT === 'http' ? 'http' : 'stdio');
+  // HTTP clients may be remote, so they only get the working directory when explicitly allowed
+  const localAccess = transport === 'stdio' || (options.localTools ?? process.env.MCP_HTTP_LOCAL_TOOLS === 'true');
+  const createServer = () => createMcpServer(coderabbitClient, githubIntegration, reportJobs, localAccess);
+
+  if (transport === 'http') {
+    const port = options.port ?? parseInt(process.env.MCP_PORT || '', 10);
+    const handle = await startHttpServer(createServer, {
+      host: options.host ?? process.env.MCP_HOST ?? DEFAULT_HTTP_HOST,
+      port: Number.isInteger(port) && port >= 0 ? port : DEFAULT_HTTP_PORT,
+      authToken: options.authToken ?? (process.env.MCP_AUTH_TOKEN || undefined)
+    });
+
+    // Always announce the endpoint so clients know where to connect
+    console.error(`CodeRabbit MCP Server listening on ${handle.url}`);
+    return handle;
   }
 
   // Connect to transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const server = createServer();
+  const stdioTransport = new StdioServerTransport();
+  await server.connect(stdioTransport);
   
-  if (process.env.LOG_LEVEL === 'info' || process.env.LOG_LEVEL === 'debug' || process.env.DEBUG) {
+  if (isVerbose()) {
     console.error('CodeRabbit MCP Server v2.0 is running (REAL features only)...');
-    console.error(`Available tools: ${githubIntegration ? '4' : '1'} tools registered`);
+    console.error(`Available tools: ${githubIntegration ? '21' : '7'} tools registered`);
   }
   
   return server;
-}
\ No newline at end of file
+}
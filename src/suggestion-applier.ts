@@ -0,0 +1,227 @@
+import { CodeRabbitIssue } from './types.js';
+
+// Lines of unchanged context around each hunk in generated diffs
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * A planned replacement of a contiguous block of lines in a file
+ */
+export interface SuggestionEdit {
+  issueId: string;
+  start: number; // 0-based index of the first replaced line
+  original: string[];
+  replacement: string[];
+}
+
+/**
+ * Outcome of trying to apply one suggestion
+ */
+export interface SuggestionOutcome {
+  issueId: string;
+  file: string;
+  status: 'applied' | 'conflict' | 'skipped';
+  reason?: string;
+  line?: number; // 1-based line where the suggestion was (or would be) applied
+  drift?: number; // How far the target lines moved since the review
+}
+
+/**
+ * Work out which lines a finding's fix replaces and what it replaces them with
+ */
+export function extractReplacement(issue: CodeRabbitIssue): { original: string[]; replacement: string[] } | null {
+  if (issue.fix === undefined) return null;
+
+  if (issue.fixFormat === 'suggestion') {
+    // Committable suggestions replace the commented lines verbatim
+    if (issue.codeSnippet === undefined) return null;
+    return {
+      original: issue.codeSnippet.split('\n'),
+      replacement: issue.fix === '' ? [] : issue.fix.split('\n')
+    };
+  }
+
+  if (issue.fixFormat === 'diff') {
+    const original: string[] = [];
+    const replacement: string[] = [];
+    let changed = false;
+
+    for (const line of issue.fix.split('\n')) {
+      if (line.startsWith('@@') || line.startsWith('\\')) continue;
+      if (line.startsWith('-')) {
+        original.push(line.slice(1));
+        changed = true;
+      } else if (line.startsWith('+')) {
+        replacement.push(line.slice(1));
+        changed = true;
+      } else {
+        const context = line.startsWith(' ') ? line.slice(1) : line;
+        original.push(context);
+        replacement.push(context);
+      }
+    }
+
+    // Drop blank context lines at the edges, they rarely match exactly
+    while (original.length > 0 && replacement.length > 0 && original[0].trim() === '' && replacement[0].trim() === '') {
+      original.shift();
+      replacement.shift();
+    }
+    while (original.length > 0 && replacement.length > 0 &&
+      original[original.length - 1].trim() === '' && replacement[replacement.length - 1].trim() === '') {
+      original.pop();
+      replacement.pop();
+    }
+
+    return changed && original.length > 0 ? { original, replacement } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Find where a block of lines occurs in a file, preferring the occurrence closest to the expected line
+ */
+function locateBlock(lines: string[], block: string[], expectedIndex: number): number | null {
+  const matches: number[] = [];
+
+  for (let i = 0; i + block.length <= lines.length; i++) {
+    let matched = true;
+    for (let j = 0; j < block.length; j++) {
+      if (lines[i + j].trimEnd() !== block[j].trimEnd()) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) matches.push(i);
+  }
+
+  if (matches.length === 0) return null;
+  return matches.reduce((best, index) =>
+    Math.abs(index - expectedIndex) < Math.abs(best - expectedIndex) ? index : best
+  );
+}
+
+/**
+ * Plan the edits for a set of findings against one file's current content
+ * Verifies each fix's original lines still exist and rejects overlapping edits
+ */
+export function planSuggestions(
+  file: string,
+  content: string,
+  issues: CodeRabbitIssue[]
+): { edits: SuggestionEdit[]; outcomes: SuggestionOutcome[] } {
+  const lines = content.split('\n');
+  const edits: SuggestionEdit[] = [];
+  const outcomes: SuggestionOutcome[] = [];
+
+  for (const issue of issues) {
+    const replacement = extractReplacement(issue);
+    if (!replacement) {
+      outcomes.push({ issueId: issue.id, file, status: 'skipped', reason: 'No applicable code suggestion' });
+      continue;
+    }
+
+    const expectedIndex = (issue.line ?? 1) - 1;
+    const start = locateBlock(lines, replacement.original, expectedIndex);
+    if (start === null) {
+      outcomes.push({ issueId: issue.id, file, status: 'conflict', reason: 'Target lines no longer match the reviewed code', line: issue.line });
+      continue;
+    }
+
+    const end = start + replacement.original.length;
+    const overlapping = edits.find(edit => start < edit.start + edit.original.length && edit.start < end);
+    if (overlapping) {
+      outcomes.push({ issueId: issue.id, file, status: 'conflict', reason: `Overlaps with suggestion ${overlapping.issueId}`, line: start + 1 });
+      continue;
+    }
+
+    edits.push({ issueId: issue.id, start, ...replacement });
+    outcomes.push({
+      issueId: issue.id,
+      file,
+      status: 'applied',
+      line: start + 1,
+      drift: issue.line !== undefined ? start + 1 - issue.line : undefined
+    });
+  }
+
+  return { edits, outcomes };
+}
+
+/**
+ * Apply planned edits to file content
+ */
+export function applyEdits(content: string, edits: SuggestionEdit[]): string {
+  const lines = content.split('\n');
+  // Apply bottom-up so earlier line indexes stay valid
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    lines.splice(edit.start, edit.original.length, ...edit.replacement);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render planned edits as a unified diff
+ */
+export function createUnifiedDiff(file: string, content: string, edits: SuggestionEdit[]): string {
+  if (edits.length === 0) return '';
+
+  const lines = content.split('\n');
+  // A trailing newline is not a line of its own
+  if (content.endsWith('\n')) lines.pop();
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+
+  // Group edits whose context windows touch into one hunk
+  const groups: SuggestionEdit[][] = [];
+  for (const edit of sorted) {
+    const last = groups[groups.length - 1];
+    const previous = last?.[last.length - 1];
+    if (previous && edit.start - (previous.start + previous.original.length) <= DIFF_CONTEXT_LINES * 2) {
+      last.push(edit);
+    } else {
+      groups.push([edit]);
+    }
+  }
+
+  let output = `--- a/${file}\n+++ b/${file}\n`;
+  let offset = 0; // Line count change from earlier hunks
+
+  for (const group of groups) {
+    const first = group[0];
+    const lastEdit = group[group.length - 1];
+    const hunkStart = Math.max(0, first.start - DIFF_CONTEXT_LINES);
+    const hunkEnd = Math.min(lines.length, lastEdit.start + lastEdit.original.length + DIFF_CONTEXT_LINES);
+
+    const body: string[] = [];
+    let cursor = hunkStart;
+    let oldCount = 0;
+    let newCount = 0;
+
+    for (const edit of group) {
+      for (; cursor < edit.start; cursor++) {
+        body.push(` ${lines[cursor]}`);
+        oldCount++;
+        newCount++;
+      }
+      for (const line of lines.slice(edit.start, edit.start + edit.original.length)) {
+        body.push(`-${line}`);
+        oldCount++;
+      }
+      for (const line of edit.replacement) {
+        body.push(`+${line}`);
+        newCount++;
+      }
+      cursor = edit.start + edit.original.length;
+    }
+    for (; cursor < hunkEnd; cursor++) {
+      body.push(` ${lines[cursor]}`);
+      oldCount++;
+      newCount++;
+    }
+
+    output += `@@ -${hunkStart + 1},${oldCount} +${hunkStart + 1 + offset},${newCount} @@\n`;
+    output += body.join('\n') + '\n';
+    offset += newCount - oldCount;
+  }
+
+  return output;
+}
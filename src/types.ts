@@ -22,17 +22,30 @@ export interface CodeRabbitReview {
   url?: string;
 }
 
+// Categories CodeRabbit uses to label its findings
+export type CodeRabbitFindingCategory =
+  | 'potential_issue'
+  | 'refactor'
+  | 'nitpick'
+  | 'verification'
+  | 'outside_diff'
+  | 'duplicate'
+  | 'additional';
+
 export interface CodeRabbitIssue {
   id: string;
   severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
   type: 'bug' | 'security' | 'performance' | 'style' | 'best_practice' | 'code_smell';
+  category?: CodeRabbitFindingCategory; // CodeRabbit's own label, e.g. a nitpick section or header
   file: string;
   line?: number;
+  endLine?: number;
   column?: number;
   message: string;
   suggestion?: string;
   codeSnippet?: string;
   fix?: string;
+  fixFormat?: 'suggestion' | 'diff';
 }
 
 export interface ReviewStats {
@@ -86,41 +99,373 @@ export const ConfigureReviewSchema = z.object({
   })
 });
 
+const isoDate = z.string().refine(value => !isNaN(Date.parse(value)), 'Must be an ISO date (e.g. 2025-01-01 or 2025-01-01T00:00:00Z)');
+
 export const GetReviewHistorySchema = z.object({
-  repository: z.string().regex(createRepoRegex(), 'Repository must be in format owner/repo').describe('Repository to get history for'),
-  limit: z.number().positive('Limit must be positive').optional().default(10),
-  since: z.string().optional().describe('ISO date string')
+  repository: z.string().regex(createRepoRegex(), 'Repository must be in format owner/repo').optional().describe('Repository to get history for (default: from the origin remote)'),
+  limit: z.number().int().positive('Limit must be positive').max(100, 'Limit cannot exceed 100').optional().default(10).describe('Maximum number of reviewed pull requests, most recently updated first'),
+  since: isoDate.optional().describe('ISO date string; only include reviews from this date on'),
+  until: isoDate.optional().describe('ISO date string; only include reviews up to this date')
+});
+
+// Grouping options supported by the CodeRabbit report API
+export const ReportGroupBySchema = z.enum([
+  'NONE',
+  'REPOSITORY',
+  'LABEL',
+  'TEAM',
+  'USER',
+  'SOURCEBRANCH',
+  'TARGETBRANCH',
+  'STATE'
+]);
+
+export type ReportGroupBy = z.infer<typeof ReportGroupBySchema>;
+
+// One group of a report as returned by the CodeRabbit API
+export const ReportSectionSchema = z.object({
+  group: z.string(),
+  report: z.string() // Markdown
+});
+
+export type ReportSection = z.infer<typeof ReportSectionSchema>;
+
+// How long date ranges are split into separately generated reports
+export const ReportChunkBySchema = z.enum(['auto', 'none', 'week', 'month']);
+
+export type ReportChunkBy = z.infer<typeof ReportChunkBySchema>;
+
+export const DeveloperActivityReportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  groupBy: ReportGroupBySchema.optional(),
+  generatedAt: z.string().datetime(),
+  sections: z.array(ReportSectionSchema),
+  // Periods missing from a chunked report because their generation failed
+  failedChunks: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    error: z.string()
+  })).optional()
 });
 
+export type DeveloperActivityReport = z.infer<typeof DeveloperActivityReportSchema>;
+
+export type ReportFormat = 'markdown' | 'csv' | 'json';
+
+// Rendering options shared by the report tools
+const reportOutputShape = {
+  format: z.enum(['markdown', 'csv', 'json']).optional().describe('Output format (default: markdown)'),
+  outputPath: z.string().min(1).optional().describe('Also write the rendered report to this file, relative to the workspace')
+};
+
 export const GenerateReportSchema = z.object({
   from: z.string().datetime({ offset: true }).describe('Start date (ISO format, e.g., 2025-01-01T00:00:00Z)'),
   to: z.string().datetime({ offset: true }).describe('End date (ISO format, e.g., 2025-01-31T23:59:59Z)'),
   prompt: z.string().optional().describe('Custom prompt for the report'),
-  groupBy: z.string().optional().describe('Group results by field'),
-  orgId: z.string().optional().describe('Organization ID')
+  groupBy: ReportGroupBySchema.optional().describe('Group results by this dimension'),
+  orgId: z.string().optional().describe('Organization ID'),
+  refresh: z.boolean().optional().describe('Regenerate even if a cached report for the same parameters exists'),
+  chunkBy: ReportChunkBySchema.optional().describe('Generate the range in weekly or monthly chunks and merge them (default: auto, weekly for ranges over 31 days)'),
+  ...reportOutputShape
+});
+
+// Tool input schemas must be plain objects, so cross-field checks live in a separate schema
+export const GenerateReportRequestSchema = GenerateReportSchema.refine(
+  params => Date.parse(params.to) >= Date.parse(params.from),
+  { message: '`to` must not be before `from`', path: ['to'] }
+);
+
+export const GetReportJobSchema = z.object({
+  jobId: z.string().uuid().optional().describe('Job ID returned by generateReport (omit to list recent jobs)'),
+  waitSeconds: z.number().int().min(0).max(600).optional().default(0).describe('Wait up to this many seconds for the job to finish, with progress notifications'),
+  ...reportOutputShape
 });
 
+export const ReportJobActionSchema = z.object({
+  jobId: z.string().uuid().describe('Job ID returned by generateReport')
+});
+
+// Pagination options shared by GitHub list tools
+const listOptionsShape = {
+  maxItems: z.number().int().positive('maxItems must be positive').optional().describe('Maximum number of items to fetch from GitHub (default: all pages)'),
+  since: z.string().datetime({ offset: true }).optional().describe('Only include items updated after this ISO timestamp')
+};
+
+// Repository fields of the GitHub tools; omitted values are inferred from the local checkout
+const repositoryShape = {
+  owner: z.string().regex(githubNameRegex, 'Invalid owner/organization name').optional().describe('Repository owner/organization (default: from the origin remote)'),
+  repo: z.string().regex(githubNameRegex, 'Invalid repository name').optional().describe('Repository name (default: from the origin remote)')
+};
+
+const pullRequestShape = {
+  ...repositoryShape,
+  prNumber: z.number().positive('PR number must be positive').optional().describe('Pull request number (default: the open PR for the current branch)')
+};
+
 // GitHub Integration Schemas
 export const CreatePRSchema = z.object({
-  owner: z.string().regex(githubNameRegex, 'Invalid owner/organization name').describe('Repository owner/organization'),
-  repo: z.string().regex(githubNameRegex, 'Invalid repository name').describe('Repository name'),
+  ...repositoryShape,
   title: z.string().min(1, 'Title cannot be empty').describe('PR title'),
   head: z.string().regex(branchNameRegex, 'Invalid branch name').describe('Head branch (source)'),
   base: z.string().regex(branchNameRegex, 'Invalid branch name').optional().default('main').describe('Base branch (target)'),
   body: z.string().optional().describe('PR description')
 });
 
+export const PushChangesAndCreatePRSchema = z.object({
+  ...repositoryShape,
+  branch: z.string().regex(branchNameRegex, 'Invalid branch name').describe('New branch to create and push'),
+  title: z.string().min(1, 'Title cannot be empty').describe('PR title (also used for the commit message)'),
+  description: z.string().optional().describe('PR description'),
+  base: z.string().regex(branchNameRegex, 'Invalid branch name').optional().describe('Base branch (target), defaults to the repository default branch'),
+  files: z.array(z.string().min(1)).optional().describe('Specific files to stage'),
+  includeUntracked: z.boolean().optional().default(false).describe('Stage untracked files as well'),
+  isolated: z.boolean().optional().default(false).describe('Work in a temporary git worktree (carrying over uncommitted changes) so the current checkout, branch and index stay untouched'),
+  dryRun: z.boolean().optional().default(false).describe('Preview branch, staged files, commit message and base without changing anything')
+});
+
 export const GetCodeRabbitCommentsSchema = z.object({
-  owner: z.string().regex(githubNameRegex, 'Invalid owner/organization name').describe('Repository owner/organization'),
-  repo: z.string().regex(githubNameRegex, 'Invalid repository name').describe('Repository name'),
-  prNumber: z.number().positive('PR number must be positive').describe('Pull request number')
+  ...pullRequestShape,
+  format: z.enum(['raw', 'structured']).optional().describe('Return raw comment bodies (default) or parsed findings with severity, file and line range'),
+  ...listOptionsShape
+});
+
+export const GetCodeRabbitReviewCommentsSchema = z.object({
+  ...pullRequestShape,
+  includeResolved: z.boolean().optional().default(true).describe('Include comments in resolved threads'),
+  includeReplies: z.boolean().optional().default(true).describe('Include replies within threads'),
+  ...listOptionsShape
+});
+
+export const WaitForCodeRabbitReviewSchema = z.object({
+  ...pullRequestShape,
+  timeoutSeconds: z.number().int().positive('Timeout must be positive').max(1800, 'Timeout cannot exceed 30 minutes').optional().default(600).describe('Maximum time to wait in seconds'),
+  pollIntervalSeconds: z.number().int().min(5, 'Poll interval must be at least 5 seconds').optional().default(15).describe('Initial poll interval in seconds (backs off up to 60s)')
+});
+
+export const ApplyCodeRabbitSuggestionsSchema = z.object({
+  ...pullRequestShape,
+  ids: z.array(z.string().min(1)).optional().describe('Finding IDs to apply (from getCodeRabbitComments with format "structured")'),
+  files: z.array(z.string().min(1)).optional().describe('Only apply suggestions for these file paths'),
+  severities: z.array(z.enum(['critical', 'high', 'medium', 'low', 'info'])).optional().describe('Only apply suggestions with these severities'),
+  dryRun: z.boolean().optional().default(false).describe('Return the resulting unified diff without modifying files')
 });
 
 export const AskCodeRabbitInPRSchema = z.object({
+  ...pullRequestShape,
+  question: z.string().min(1, 'Question cannot be empty').describe('Question to ask CodeRabbit'),
+  waitForReply: z.boolean().optional().default(false).describe('Wait for CodeRabbit\'s answer and return it'),
+  timeoutSeconds: z.number().int().positive('Timeout must be positive').max(600, 'Timeout cannot exceed 10 minutes').optional().describe('Maximum time to wait for the answer in seconds (default: 120)')
+});
+
+// Tool input schemas must be plain objects, so cross-field checks live in a separate schema
+export const AskCodeRabbitInPRRequestSchema = AskCodeRabbitInPRSchema.refine(
+  params => params.timeoutSeconds === undefined || params.waitForReply,
+  { message: '`timeoutSeconds` requires waitForReply', path: ['timeoutSeconds'] }
+);
+
+export const GetCodeRabbitReplySchema = z.object({
+  ...pullRequestShape,
+  commentId: z.number().int().positive('Comment ID must be positive').describe('ID of the comment the question was posted in (returned by askCodeRabbitInPR)'),
+  waitSeconds: z.number().int().min(0).max(600).optional().default(0).describe('Wait up to this many seconds for the answer (default: check once)')
+});
+
+export const ReplyToReviewCommentSchema = z.object({
+  ...pullRequestShape,
+  commentId: z.number().int().positive('Comment ID must be positive').describe('ID of a review comment in the thread (from getCodeRabbitReviewComments)'),
+  body: z.string().min(1, 'Reply cannot be empty').describe('Reply text (markdown)'),
+  mentionCodeRabbit: z.boolean().optional().default(true).describe('Prefix the reply with @coderabbitai so CodeRabbit responds in the thread')
+});
+
+export const ResolveReviewThreadSchema = z.object({
+  ...pullRequestShape,
+  commentId: z.number().int().positive('Comment ID must be positive').describe('ID of a review comment in the thread (from getCodeRabbitReviewComments)'),
+  resolved: z.boolean().optional().default(true).describe('Resolve the thread (default) or set to false to unresolve it')
+});
+
+export const GetPullRequestDashboardSchema = z.object({
+  ...repositoryShape,
+  org: z.string().regex(githubNameRegex, 'Invalid owner/organization name').optional().describe('Cover all repositories of this organization or user instead of one repository'),
+  state: z.enum(['open', 'closed']).optional().default('open').describe('List open (default) or recently closed pull requests'),
+  closedWithinDays: z.number().int().min(1).max(90).optional().describe('How many days back to look for closed pull requests (default: 7)'),
+  maxPullRequests: z.number().int().min(1).max(100).optional().default(30).describe('Maximum number of pull requests, most recently updated first')
+});
+
+// Tool input schemas must be plain objects, so cross-field checks live in a separate schema
+export const GetPullRequestDashboardRequestSchema = GetPullRequestDashboardSchema.superRefine((params, ctx) => {
+  if (params.org && (params.owner || params.repo)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Pass either org or owner/repo, not both', path: ['org'] });
+  }
+  if (params.closedWithinDays !== undefined && params.state !== 'closed') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: '`closedWithinDays` requires state "closed"', path: ['closedWithinDays'] });
+  }
+});
+
+export const CompareCodeRabbitReviewsSchema = z.object({
+  ...pullRequestShape,
+  baseSha: z.string().regex(/^[0-9a-fA-F]{7,40}$/, 'Invalid commit SHA').optional().describe('Head commit of the earlier review round (default: the round before headSha)'),
+  headSha: z.string().regex(/^[0-9a-fA-F]{7,40}$/, 'Invalid commit SHA').optional().describe('Head commit of the later review round (default: the latest round)')
+});
+
+export const CodeRabbitCommandSchema = z.enum([
+  'review',
+  'full review',
+  'pause',
+  'resume',
+  'resolve',
+  'summary',
+  'generate docstrings',
+  'generate unit tests',
+  'configuration',
+  'help'
+]);
+
+export type CodeRabbitCommand = z.infer<typeof CodeRabbitCommandSchema>;
+
+export type CodeRabbitCommandArgument = 'paths' | 'instructions';
+
+// Arguments each command accepts; commands not listed take none
+export const CODERABBIT_COMMAND_ARGUMENTS: Partial<Record<CodeRabbitCommand, CodeRabbitCommandArgument[]>> = {
+  'generate unit tests': ['paths', 'instructions']
+};
+
+export const RunCodeRabbitCommandSchema = z.object({
+  ...pullRequestShape,
+  command: CodeRabbitCommandSchema.describe('CodeRabbit chat command to post'),
+  paths: z.array(z.string().min(1)).min(1).optional().describe('Files to generate unit tests for (only "generate unit tests")'),
+  instructions: z.string().min(1).optional().describe('Additional instructions (only "generate unit tests")'),
+  waitForAcknowledgment: z.boolean().optional().default(true).describe('Wait for CodeRabbit to reply to the command and return the reply'),
+  timeoutSeconds: z.number().int().positive('Timeout must be positive').max(600, 'Timeout cannot exceed 10 minutes').optional().describe('Maximum time to wait for the reply in seconds (default: 120)')
+});
+
+// Tool input schemas must be plain objects, so cross-field checks live in a separate schema
+export const RunCodeRabbitCommandRequestSchema = RunCodeRabbitCommandSchema.superRefine((params, ctx) => {
+  const accepted = CODERABBIT_COMMAND_ARGUMENTS[params.command] ?? [];
+  for (const argument of ['paths', 'instructions'] as const) {
+    if (params[argument] !== undefined && !accepted.includes(argument)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `\`${argument}\` is not supported by the "${params.command}" command`,
+        path: [argument]
+      });
+    }
+  }
+  if (params.timeoutSeconds !== undefined && !params.waitForAcknowledgment) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: '`timeoutSeconds` requires waitForAcknowledgment',
+      path: ['timeoutSeconds']
+    });
+  }
+});
+
+export const GetLocalDiffSchema = z.object({
+  base: z.string().regex(/^[a-zA-Z0-9_][a-zA-Z0-9/_.~^-]*$/, 'Invalid git ref').optional().describe('Ref to compare the current branch against (default: the remote default branch, e.g. origin/main)'),
+  include: z.array(z.enum(['staged', 'unstaged', 'branch'])).optional().describe('Diffs to include (default: all)'),
+  paths: z.array(z.string().min(1)).optional().describe('Only include these paths or globs (use ** to match any depth)'),
+  maxFileChars: z.number().int().positive().optional().describe('Omit diffs of files larger than this (default: 20000)'),
+  maxTotalChars: z.number().int().positive().optional().describe('Stop including diffs once this many characters are reached (default: 100000)')
+});
+
+// Subset of CodeRabbit's .coderabbit.yaml options (schema v2); other options pass through unchecked
+const PathInstructionSchema = z.object({
+  path: z.string().min(1, 'Path glob cannot be empty'),
+  instructions: z.string().min(1, 'Instructions cannot be empty').max(20000)
+});
+
+export const CodeRabbitConfigSchema = z.object({
+  language: z.string().optional(),
+  tone_instructions: z.string().max(250).optional(),
+  early_access: z.boolean().optional(),
+  enable_free_tier: z.boolean().optional(),
+  reviews: z.object({
+    profile: z.enum(['chill', 'assertive']).optional(),
+    request_changes_workflow: z.boolean().optional(),
+    high_level_summary: z.boolean().optional(),
+    high_level_summary_placeholder: z.string().optional(),
+    auto_title_placeholder: z.string().optional(),
+    review_status: z.boolean().optional(),
+    commit_status: z.boolean().optional(),
+    collapse_walkthrough: z.boolean().optional(),
+    changed_files_summary: z.boolean().optional(),
+    sequence_diagrams: z.boolean().optional(),
+    poem: z.boolean().optional(),
+    abort_on_close: z.boolean().optional(),
+    path_filters: z.array(z.string()).optional(),
+    path_instructions: z.array(PathInstructionSchema).optional(),
+    auto_review: z.object({
+      enabled: z.boolean().optional(),
+      auto_incremental_review: z.boolean().optional(),
+      drafts: z.boolean().optional(),
+      base_branches: z.array(z.string()).optional(),
+      ignore_title_keywords: z.array(z.string()).optional(),
+      labels: z.array(z.string()).optional()
+    }).passthrough().optional(),
+    tools: z.record(z.unknown()).optional()
+  }).passthrough().optional(),
+  chat: z.object({
+    auto_reply: z.boolean().optional()
+  }).passthrough().optional(),
+  knowledge_base: z.record(z.unknown()).optional()
+}).passthrough();
+
+export type CodeRabbitConfig = z.infer<typeof CodeRabbitConfigSchema>;
+
+// Omitting owner and repo selects the .coderabbit.yaml in the local working tree
+const configRepoShape = {
+  owner: z.string().regex(githubNameRegex, 'Invalid owner/organization name').optional().describe('Repository owner/organization (omit with repo to use the local working tree)'),
+  repo: z.string().regex(githubNameRegex, 'Invalid repository name').optional().describe('Repository name (omit with owner to use the local working tree)')
+};
+
+export const GetCodeRabbitConfigSchema = z.object({
+  ...configRepoShape,
+  ref: z.string().optional().describe('Branch, tag or commit to read on GitHub (default: the default branch)')
+});
+
+// Edits that replace the settings of the deprecated configureReview method
+export const CodeRabbitConfigEditsSchema = z.object({
+  profile: z.enum(['chill', 'assertive']).optional().describe('Review profile: chill (fewer comments) or assertive (more nitpicks)'),
+  autoReview: z.boolean().optional().describe('Review new pull requests automatically'),
+  addPathFilters: z.array(z.string().min(1)).optional().describe('Path globs to add to reviews.path_filters; prefix with ! to exclude paths'),
+  removePathFilters: z.array(z.string().min(1)).optional().describe('Path globs to remove from reviews.path_filters'),
+  pathInstructions: z.array(PathInstructionSchema).optional().describe('Review instructions per path glob, replacing existing instructions for the same glob'),
+  removePathInstructions: z.array(z.string().min(1)).optional().describe('Path globs whose review instructions should be removed')
+});
+
+export type CodeRabbitConfigEdits = z.infer<typeof CodeRabbitConfigEditsSchema>;
+
+export const UpdateCodeRabbitConfigSchema = z.object({
+  ...configRepoShape,
+  ...CodeRabbitConfigEditsSchema.shape,
+  target: z.enum(['local', 'pull_request']).optional().default('local').describe('Write the file in the local working tree or open a pull request on GitHub (requires owner and repo)'),
+  branch: z.string().regex(branchNameRegex, 'Invalid branch name').optional().describe('Branch for the pull request (default: coderabbit-config-<timestamp>)'),
+  base: z.string().regex(branchNameRegex, 'Invalid branch name').optional().describe('Base branch for the pull request (default: the repository default branch)'),
+  dryRun: z.boolean().optional().default(false).describe('Show the updated file without writing it or opening a pull request')
+});
+
+// Prompt argument schemas: MCP prompt arguments are always strings
+const promptPullShape = {
   owner: z.string().regex(githubNameRegex, 'Invalid owner/organization name').describe('Repository owner/organization'),
   repo: z.string().regex(githubNameRegex, 'Invalid repository name').describe('Repository name'),
-  prNumber: z.number().positive('PR number must be positive').describe('Pull request number'),
-  question: z.string().min(1, 'Question cannot be empty').describe('Question to ask CodeRabbit')
+  prNumber: z.string().regex(/^[1-9]\d*$/, 'PR number must be a positive integer').describe('Pull request number')
+};
+
+export const AddressFindingsPromptSchema = z.object({
+  ...promptPullShape,
+  minSeverity: z.enum(['critical', 'high', 'medium', 'low', 'info']).optional().describe('Lowest severity to address (default: medium)')
+});
+
+export const TriageNitpicksPromptSchema = z.object(promptPullShape);
+
+export const SummarizeReviewPromptSchema = z.object({
+  ...promptPullShape,
+  audience: z.enum(['author', 'reviewer', 'manager']).optional().describe('Who the summary is for (default: author)')
+});
+
+export const PRDescriptionPromptSchema = z.object({
+  owner: promptPullShape.owner,
+  repo: promptPullShape.repo,
+  base: z.string().regex(branchNameRegex, 'Invalid branch name').optional().describe('Base branch to compare against (default: repository default branch)')
 });
 
 // Cache Entry Type
@@ -128,4 +473,6 @@ export interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number;
+  staleTTL?: number; // Extra time an expired entry is kept for revalidation
+  bytes?: number; // Size of the entry as measured by the cache storage
 }
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCacheStorage } from '../src/cache-storage';
+import { SimpleCache } from '../src/cache';
+
+describe('FileCacheStorage', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-storage-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('Persistence', () => {
+    test('should survive a restart', () => {
+      const first = new SimpleCache<{ total: number }>(60000, 10, { storage: new FileCacheStorage(directory) });
+      first.set('report:1', { total: 42 });
+      first.destroy();
+
+      const second = new SimpleCache<{ total: number }>(60000, 10, { storage: new FileCacheStorage(directory) });
+      expect(second.get('report:1')).toEqual({ total: 42 });
+      second.destroy();
+    });
+
+    test('should drop expired entries on load', () => {
+      const storage = new FileCacheStorage<string>(directory);
+      storage.set('old', { data: 'value', timestamp: Date.now() - 2000, ttl: 1000 });
+      storage.set('fresh', { data: 'value', timestamp: Date.now(), ttl: 60000 });
+
+      const reloaded = new FileCacheStorage<string>(directory);
+      expect(reloaded.keys()).toEqual(['fresh']);
+      expect(fs.readdirSync(directory)).toHaveLength(1);
+    });
+
+    test('should remove stale temp and corrupted files on load', () => {
+      const stale = path.join(directory, 'abc.json.123.tmp');
+      fs.writeFileSync(stale, '{');
+      const hourAgo = new Date(Date.now() - 3600000);
+      fs.utimesSync(stale, hourAgo, hourAgo);
+      fs.writeFileSync(path.join(directory, 'broken.json'), 'not json');
+
+      const storage = new FileCacheStorage<string>(directory);
+      expect(storage.size).toBe(0);
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+
+    test('should keep temp files another process is writing', () => {
+      fs.writeFileSync(path.join(directory, 'abc.json.123.tmp'), '{');
+
+      const storage = new FileCacheStorage<string>(directory);
+      expect(storage.size).toBe(0);
+      expect(fs.readdirSync(directory)).toEqual(['abc.json.123.tmp']);
+    });
+
+    test('should only give the owner access', () => {
+      const nested = path.join(directory, 'responses');
+      const storage = new FileCacheStorage<string>(nested);
+      storage.set('a', { data: '1', timestamp: Date.now(), ttl: 60000 });
+
+      expect(fs.statSync(nested).mode & 0o777).toBe(0o700);
+      const [file] = fs.readdirSync(nested);
+      expect(fs.statSync(path.join(nested, file)).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  describe('Size Budget', () => {
+    test('should evict oldest entries when over budget', () => {
+      const storage = new FileCacheStorage<string>(directory, 350);
+      const payload = 'x'.repeat(100);
+
+      storage.set('a', { data: payload, timestamp: Date.now(), ttl: 60000 });
+      storage.set('b', { data: payload, timestamp: Date.now(), ttl: 60000 });
+      storage.set('c', { data: payload, timestamp: Date.now(), ttl: 60000 });
+
+      expect(storage.keys()).toEqual(['b', 'c']);
+      expect(storage.bytes).toBeLessThanOrEqual(350);
+    });
+
+    test('should keep an entry larger than the budget that was just written', () => {
+      const storage = new FileCacheStorage<string>(directory, 50);
+      storage.set('big', { data: 'x'.repeat(100), timestamp: Date.now(), ttl: 60000 });
+
+      expect(storage.get('big')?.data).toHaveLength(100);
+    });
+  });
+
+  describe('With SimpleCache', () => {
+    const bytesOnDisk = () => fs.readdirSync(directory)
+      .reduce((total, file) => total + fs.statSync(path.join(directory, file)).size, 0);
+
+    test('should report the stored size after overwrites and deletes', () => {
+      const cache = new SimpleCache<string>(60000, 10, { storage: new FileCacheStorage(directory) });
+
+      for (let i = 0; i < 5; i++) {
+        cache.set('key', `value ${i}`);
+      }
+      cache.set('other', 'value');
+      let stats = cache.getStats();
+      expect(stats.size).toBe(2);
+      expect(stats.bytes).toBe(bytesOnDisk());
+      expect(stats.bytes).toBe(stats.entries.reduce((total, entry) => total + entry.bytes, 0));
+
+      cache.delete('key');
+      stats = cache.getStats();
+      expect(stats.size).toBe(1);
+      expect(stats.bytes).toBe(bytesOnDisk());
+
+      cache.delete('other');
+      expect(cache.getStats().bytes).toBe(0);
+      cache.destroy();
+    });
+
+    test('should match the storage after it evicts entries', () => {
+      const storage = new FileCacheStorage<string>(directory, 300);
+      const cache = new SimpleCache<string>(60000, 10, { storage });
+      const payload = 'x'.repeat(100);
+
+      cache.set('a', payload);
+      cache.set('b', payload);
+      cache.set('c', payload);
+
+      const stats = cache.getStats();
+      expect(stats.entries.map(entry => entry.key)).toEqual(['c']);
+      expect(stats.size).toBe(storage.size);
+      expect(stats.bytes).toBe(storage.bytes);
+      expect(stats.bytes).toBe(bytesOnDisk());
+      cache.destroy();
+    });
+
+    test('should evict to its own byte budget using the stored sizes', () => {
+      const storage = new FileCacheStorage<string>(directory);
+      const cache = new SimpleCache<string>(60000, 10, { storage, maxBytes: 400 });
+      const payload = 'x'.repeat(100);
+
+      cache.set('a', payload);
+      cache.set('b', payload);
+      cache.set('c', payload);
+
+      const stats = cache.getStats();
+      expect(stats.entries.map(entry => entry.key)).toEqual(['b', 'c']);
+      expect(stats.bytes).toBeLessThanOrEqual(400);
+      expect(stats.bytes).toBe(bytesOnDisk());
+      cache.destroy();
+    });
+  });
+
+  describe('Write Errors', () => {
+    test('should return loaded values without caching them when writing fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const storage = new FileCacheStorage<string>(directory);
+      const cache = new SimpleCache<string>(60000, 10, { storage });
+      cache.set('key', 'old');
+
+      fs.rmSync(directory, { recursive: true, force: true }); // Every write now fails
+      await expect(cache.getOrLoad('other', async () => 'loaded')).resolves.toBe('loaded');
+      cache.set('key', 'new');
+
+      expect(storage.size).toBe(0);
+      expect(storage.bytes).toBe(0);
+      expect(cache.get('key')).toBeNull();
+      expect(warn).toHaveBeenCalledWith('Could not write cache entry other:', expect.anything());
+      cache.destroy();
+    });
+  });
+
+  describe('Operations', () => {
+    test('should delete and clear entries on disk', () => {
+      const storage = new FileCacheStorage<string>(directory);
+      storage.set('a', { data: '1', timestamp: Date.now(), ttl: 60000 });
+      storage.set('b', { data: '2', timestamp: Date.now(), ttl: 60000 });
+
+      storage.delete('a');
+      expect(storage.get('a')).toBeUndefined();
+      expect(fs.readdirSync(directory)).toHaveLength(1);
+
+      storage.clear();
+      expect(storage.size).toBe(0);
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { SimpleCache } from '../src/cache';
 
 describe('SimpleCache', () => {
@@ -34,6 +34,16 @@ describe('SimpleCache', () => {
       expect(cache.get('key1')).toBeNull();
     });
 
+    test('should delete keys by prefix', () => {
+      cache.set('octocat/hello#1:comments', 'a');
+      cache.set('octocat/hello#1:reviews', 'b');
+      cache.set('octocat/hello#12:comments', 'c');
+
+      expect(cache.deleteByPrefix('octocat/hello#1:')).toBe(2);
+      expect(cache.get('octocat/hello#1:comments')).toBeNull();
+      expect(cache.get('octocat/hello#12:comments')).toBe('c');
+    });
+
     test('should clear all entries', () => {
       cache.set('key1', 'value1');
       cache.set('key2', 'value2');
@@ -82,6 +92,34 @@ describe('SimpleCache', () => {
       expect(cache.get('key6')).toBe('value6'); // New entry exists
     });
 
+    test('should keep recently read entries', () => {
+      for (let i = 1; i <= 5; i++) {
+        cache.set(`key${i}`, `value${i}`);
+      }
+
+      // Reading key1 makes key2 the least recently used
+      cache.get('key1');
+      cache.set('key6', 'value6');
+
+      expect(cache.get('key1')).toBe('value1');
+      expect(cache.get('key2')).toBeNull();
+    });
+
+    test('should evict entries to stay within the byte budget', () => {
+      const sized = new SimpleCache<string>(1000, 100, { maxBytes: 250 });
+      const payload = 'x'.repeat(98); // 100 bytes as JSON
+
+      sized.set('a', payload);
+      sized.set('b', payload);
+      sized.set('c', payload);
+
+      const stats = sized.getStats();
+      expect(stats.entries.map(entry => entry.key)).toEqual(['b', 'c']);
+      expect(stats.bytes).toBe(200);
+      expect(stats.maxBytes).toBe(250);
+      sized.destroy();
+    });
+
     test('should maintain max size constraint', () => {
       for (let i = 1; i <= 10; i++) {
         cache.set(`key${i}`, `value${i}`);
@@ -120,5 +158,66 @@ describe('SimpleCache', () => {
       expect(stats.misses).toBe(0);
       expect(stats.hitRate).toBeUndefined();
     });
+
+    test('should report per-entry sizes', () => {
+      cache.set('key1', 'value1');
+
+      const stats = cache.getStats();
+      expect(stats.bytes).toBe(8);
+      expect(stats.entries).toEqual([{ key: 'key1', bytes: 8, ageMs: expect.any(Number), stale: false }]);
+    });
+  });
+
+  describe('getOrLoad', () => {
+    test('should share one load between concurrent callers', async () => {
+      let calls = 0;
+      const loader = async () => {
+        calls++;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return 'loaded';
+      };
+
+      const results = await Promise.all([cache.getOrLoad('key1', loader), cache.getOrLoad('key1', loader)]);
+
+      expect(results).toEqual(['loaded', 'loaded']);
+      expect(calls).toBe(1);
+      expect(cache.get('key1')).toBe('loaded');
+    });
+
+    test('should pass the stale value to the loader for revalidation', async () => {
+      cache.set('key1', 'old', 50, 1000);
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      const loader = jest.fn(async (stale?: string) => `${stale}-revalidated`);
+      await expect(cache.getOrLoad('key1', loader)).resolves.toBe('old-revalidated');
+      expect(loader).toHaveBeenCalledWith('old');
+    });
+
+    test('should serve stale values while revalidating in the background', async () => {
+      cache.set('key1', 'old', 50, 1000);
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      const value = await cache.getOrLoad('key1', async () => 'new', { staleWhileRevalidate: true });
+      expect(value).toBe('old');
+
+      await new Promise(resolve => setImmediate(resolve));
+      expect(cache.get('key1')).toBe('new');
+    });
+
+    test('should not cache a load for a key deleted while loading', async () => {
+      const pending = cache.getOrLoad('key1', async () => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return 'loaded';
+      });
+      cache.delete('key1');
+
+      await expect(pending).resolves.toBe('loaded');
+      expect(cache.get('key1')).toBeNull();
+    });
+
+    test('should not cache failed loads', async () => {
+      await expect(cache.getOrLoad('key1', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+      await expect(cache.getOrLoad('key1', async () => 'loaded')).resolves.toBe('loaded');
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { describe, test, expect } from '@jest/globals';
+import { findCodeRabbitReply, formatCodeRabbitCommand } from '../src/coderabbit-commands';
+
+describe('CodeRabbit Commands', () => {
+  test('should post commands without arguments as is', () => {
+    expect(formatCodeRabbitCommand({ command: 'full review' })).toBe('full review');
+  });
+
+  test('should append paths and instructions to generate unit tests', () => {
+    const text = formatCodeRabbitCommand({
+      command: 'generate unit tests',
+      paths: ['src/cache.ts', 'src/types.ts'],
+      instructions: '  Use jest and cover error paths.\n'
+    });
+
+    expect(text).toBe('generate unit tests for src/cache.ts, src/types.ts\n\nUse jest and cover error paths.');
+  });
+
+  describe('findCodeRabbitReply', () => {
+    const question = { id: 100, body: '@coderabbitai Why is the cache not invalidated on push?', created_at: '2025-03-01T10:00:00Z' };
+    const comment = (id: number, body: string, created_at = '2025-03-01T10:01:00Z') => ({ id, body, created_at });
+
+    test('should prefer comments quoting or linking the question over earlier ones', () => {
+      const comments = [
+        comment(101, 'Answer to another question, see https://github.com/o/r/pull/1#issuecomment-99'),
+        comment(102, 'Review triggered.'),
+        comment(103, '> Why is the cache not invalidated   on push?\n\nBecause the key ignores the head SHA.')
+      ];
+      expect(findCodeRabbitReply(question, comments)?.id).toBe(103);
+
+      const linked = [comment(104, 'Re https://github.com/o/r/pull/1#issuecomment-100: it is.')];
+      expect(findCodeRabbitReply(question, linked)?.id).toBe(104);
+    });
+
+    test('should fall back to the earliest later comment not linked to another question', () => {
+      const comments = [
+        comment(105, 'Second reply'),
+        comment(90, 'Edited walkthrough', '2025-03-01T10:02:00Z'),
+        comment(101, 'See #issuecomment-1000 for details'),
+        comment(103, 'First reply')
+      ];
+      expect(findCodeRabbitReply(question, comments)?.id).toBe(103);
+      expect(findCodeRabbitReply(question, [comment(90, 'Old', '2025-03-01T09:00:00Z')])).toBeUndefined();
+    });
+  });
+});
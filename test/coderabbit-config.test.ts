@@ -0,0 +1,77 @@
+import { describe, test, expect } from '@jest/globals';
+import { applyConfigEdits, validateCodeRabbitConfig } from '../src/coderabbit-config';
+
+const CONFIG = `# Team review settings
+language: en-US
+reviews:
+  profile: chill # keep it quiet
+  path_filters:
+    - "!dist/**"
+  path_instructions:
+    - path: "src/**/*.ts"
+      instructions: Check error handling.
+`;
+
+describe('CodeRabbit Config', () => {
+  test('should accept a valid config and warn about unknown options', () => {
+    const result = validateCodeRabbitConfig(`${CONFIG}  shiny_new_option: true\n`);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([{ path: 'reviews.shiny_new_option', message: 'is not a known CodeRabbit option' }]);
+  });
+
+  test('should explain invalid values by option path', () => {
+    const result = validateCodeRabbitConfig('reviews:\n  profile: thorough\n  path_filters: dist\n');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { path: 'reviews.profile', message: 'must be one of "chill", "assertive" (got "thorough")' },
+      { path: 'reviews.path_filters', message: 'must be a list (got string)' }
+    ]);
+  });
+
+  test('should report YAML syntax errors', () => {
+    const result = validateCodeRabbitConfig('reviews:\n  profile: [chill\n');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].message).toContain('YAML syntax error');
+  });
+
+  test('should apply edits while keeping comments', () => {
+    const updated = applyConfigEdits(CONFIG, {
+      profile: 'assertive',
+      autoReview: false,
+      addPathFilters: ['!**/*.snap', '!dist/**'],
+      pathInstructions: [
+        { path: 'src/**/*.ts', instructions: 'Check error handling and logging.' },
+        { path: 'test/**', instructions: 'Tests may use any.' }
+      ]
+    });
+
+    expect(updated).toContain('# Team review settings');
+    expect(updated).toContain('profile: assertive # keep it quiet');
+
+    const config = validateCodeRabbitConfig(updated).config;
+    expect(config?.reviews?.auto_review?.enabled).toBe(false);
+    expect(config?.reviews?.path_filters).toEqual(['!dist/**', '!**/*.snap']);
+    expect(config?.reviews?.path_instructions).toEqual([
+      { path: 'src/**/*.ts', instructions: 'Check error handling and logging.' },
+      { path: 'test/**', instructions: 'Tests may use any.' }
+    ]);
+  });
+
+  test('should remove path filters and instructions', () => {
+    const updated = applyConfigEdits(CONFIG, { removePathFilters: ['!dist/**'], removePathInstructions: ['src/**/*.ts'] });
+    const config = validateCodeRabbitConfig(updated).config;
+
+    expect(config?.reviews?.path_filters).toEqual([]);
+    expect(config?.reviews?.path_instructions).toEqual([]);
+  });
+
+  test('should create a new config with the schema comment', () => {
+    const created = applyConfigEdits('', { profile: 'chill' });
+
+    expect(created).toContain('yaml-language-server: $schema=');
+    expect(validateCodeRabbitConfig(created).config?.reviews?.profile).toBe('chill');
+  });
+});
@@ -0,0 +1,838 @@
+import { describe, test, expect, beforeAll, beforeEach, afterAll, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit, SimpleGit } from 'simple-git';
+
+// Octokit is ESM-only; the tests stub the API calls they need
+jest.mock('@octokit/rest', () => ({ Octokit: { plugin: () => class {} } }));
+jest.mock('@octokit/plugin-throttling', () => ({ throttling: {} }));
+
+import { GitHubIntegration } from '../src/github-integration';
+
+// Stubbed Octokit methods, keyed by their path on the client
+type OctokitStub = Record<string, Record<string, jest.Mock<(...args: any[]) => Promise<unknown>>>>;
+
+function createGitHub(cwd: string, octokit: OctokitStub): GitHubIntegration {
+  const previous = process.cwd();
+  process.chdir(cwd); // The integration works on the checkout in the current directory
+  try {
+    const github = new GitHubIntegration('test-token');
+    const rateLimit = { data: { resources: { core: { remaining: 5000, limit: 5000, reset: Date.now() / 1000 + 3600 } } } };
+    (github as any).octokit = { ...octokit, rest: { rateLimit: { get: jest.fn(async () => rateLimit) } } };
+    return github;
+  } finally {
+    process.chdir(previous);
+  }
+}
+
+function destroyGitHub(github: GitHubIntegration | undefined): void {
+  (github as any)?.cache.destroy();
+}
+
+describe('GitHubIntegration', () => {
+  describe('getCodeRabbitReviewComments', () => {
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+    let graphql: jest.Mock<(query: string, variables: Record<string, unknown>) => Promise<unknown>>;
+
+    const reviewComment = (id: number, login: string, anchor: Record<string, number | null>) => ({
+      id,
+      pull_request_review_id: 5,
+      body: `Comment ${id}`,
+      user: { login },
+      path: 'src/app.ts',
+      side: 'RIGHT',
+      commit_id: 'abc123',
+      diff_hunk: '@@ -1,3 +1,4 @@',
+      created_at: '2026-01-01T00:00:00Z',
+      html_url: `https://github.com/acme/app/pull/1#discussion_r${id}`,
+      line: null,
+      original_line: null,
+      start_line: null,
+      original_start_line: null,
+      ...anchor
+    });
+
+    beforeEach(() => {
+      octokit = {
+        pulls: {
+          listReviewComments: jest.fn(async () => ({
+            data: [
+              reviewComment(1, 'coderabbitai[bot]', { line: 12, original_line: 10, start_line: 8, original_start_line: 6 }),
+              // Outdated: only the original anchors remain
+              reviewComment(2, 'CodeRabbitAI', { original_line: 30, original_start_line: 25 }),
+              reviewComment(3, 'octocat', { line: 5 }),
+              reviewComment(4, 'coderabbitai', { line: 40 })
+            ],
+            headers: {}
+          }))
+        }
+      };
+      github = createGitHub(process.cwd(), octokit);
+      graphql = jest.fn(async () => ({
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              pageInfo: { hasNextPage: false, endCursor: null },
+              nodes: [
+                { id: 'PRRT_1', isResolved: true, isOutdated: false, comments: { nodes: [{ databaseId: 1 }, { databaseId: 3 }] } },
+                { id: 'PRRT_2', isResolved: false, isOutdated: true, comments: { nodes: [{ databaseId: 2 }] } }
+              ]
+            }
+          }
+        }
+      }));
+      (github as any).octokit.graphql = graphql;
+    });
+
+    afterEach(() => {
+      destroyGitHub(github);
+    });
+
+    test('should keep CodeRabbit comments with their anchors and thread state', async () => {
+      const result = await github.getCodeRabbitReviewComments({ owner: 'acme', repo: 'app', prNumber: 1 });
+
+      expect(result.items.map(comment => comment.id)).toEqual([1, 2, 4]);
+      expect(result.items[0]).toMatchObject({
+        review_id: 5,
+        path: 'src/app.ts',
+        line: 12,
+        start_line: 8,
+        side: 'RIGHT',
+        diff_hunk: '@@ -1,3 +1,4 @@',
+        thread_id: 'PRRT_1',
+        is_resolved: true,
+        is_outdated: false
+      });
+      expect(result.items[1]).toMatchObject({ line: 30, start_line: 25, thread_id: 'PRRT_2', is_resolved: false, is_outdated: true });
+      expect(result.items[2]).toMatchObject({ line: 40, start_line: null, thread_id: undefined, is_resolved: undefined });
+      expect(graphql).toHaveBeenCalledWith(expect.stringContaining('reviewThreads'), { owner: 'acme', repo: 'app', number: 1, cursor: null });
+    });
+
+    test('should return comments without thread state when GraphQL fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      graphql.mockRejectedValueOnce(new Error('Resource not accessible by integration'));
+
+      const result = await github.getCodeRabbitReviewComments({ owner: 'acme', repo: 'app', prNumber: 1 });
+
+      expect(result.items[0]).toMatchObject({ line: 12, thread_id: undefined, is_resolved: undefined });
+      expect(warn).toHaveBeenCalledWith('Could not load review thread state:', expect.anything());
+    });
+  });
+
+  describe('Paginated lists', () => {
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+
+    // Serve items in pages of 100 with the link header GitHub sends
+    const servePages = <T>(items: T[]) => async ({ page }: { page: number }) => {
+      const last = Math.max(1, Math.ceil(items.length / 100));
+      const url = (n: number) => `<https://api.github.com/repos/acme/app/issues/1/comments?per_page=100&page=${n}>`;
+      const links = page < last
+        ? [`${url(page + 1)}; rel="next"`, `${url(last)}; rel="last"`]
+        : [`${url(1)}; rel="first"`, `${url(page - 1)}; rel="prev"`];
+      return {
+        data: items.slice((page - 1) * 100, page * 100),
+        headers: { link: last > 1 ? links.join(', ') : undefined }
+      };
+    };
+
+    const comments = Array.from({ length: 250 }, (_, i) => ({
+      id: i + 1,
+      body: `Comment ${i + 1}`,
+      user: { login: i % 2 === 0 ? 'coderabbitai[bot]' : 'octocat' },
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      html_url: `https://github.com/acme/app/pull/1#issuecomment-${i + 1}`
+    }));
+
+    beforeEach(() => {
+      octokit = {
+        issues: { listComments: jest.fn(servePages(comments)) },
+        pulls: { listReviewComments: jest.fn(servePages([])) }
+      };
+      github = createGitHub(process.cwd(), octokit);
+      (github as any).octokit.graphql = jest.fn(async () => ({ repository: { pullRequest: null } }));
+    });
+
+    afterEach(() => {
+      destroyGitHub(github);
+    });
+
+    test('should follow rel="next" links until the last page', async () => {
+      const result = await github.getCodeRabbitComments({ owner: 'acme', repo: 'app', prNumber: 1 });
+
+      expect(octokit.issues.listComments.mock.calls.map(([params]) => (params as { page: number }).page)).toEqual([1, 2, 3]);
+      expect(octokit.issues.listComments).toHaveBeenCalledWith(expect.objectContaining({ per_page: 100 }));
+      expect(result.items).toHaveLength(125);
+      expect(result.items[124].id).toBe(249);
+      expect(result.truncated).toBe(false);
+    });
+
+    test('should stop at maxItems and flag truncation', async () => {
+      const result = await github.getCodeRabbitComments({ owner: 'acme', repo: 'app', prNumber: 1, maxItems: 150 });
+
+      // Cut off within the second page; the CodeRabbit filter applies after the cutoff
+      expect(octokit.issues.listComments).toHaveBeenCalledTimes(2);
+      expect(result.items).toHaveLength(75);
+      expect(result.truncated).toBe(true);
+    });
+
+    test('should flag truncation when maxItems ends on a page boundary with more pages', async () => {
+      const result = await github.getCodeRabbitComments({ owner: 'acme', repo: 'app', prNumber: 1, maxItems: 100 });
+
+      expect(octokit.issues.listComments).toHaveBeenCalledTimes(1);
+      expect(result.truncated).toBe(true);
+    });
+
+    test('should not flag truncation when maxItems covers every item', async () => {
+      const result = await github.getCodeRabbitComments({ owner: 'acme', repo: 'app', prNumber: 1, maxItems: 250 });
+
+      expect(octokit.issues.listComments).toHaveBeenCalledTimes(3);
+      expect(result.items).toHaveLength(125);
+      expect(result.truncated).toBe(false);
+    });
+
+    test('should forward since and cache each since separately', async () => {
+      const params = { owner: 'acme', repo: 'app', prNumber: 1 };
+
+      await github.getCodeRabbitComments({ ...params, since: '2026-01-01T00:00:00Z' });
+      await github.getCodeRabbitComments({ ...params, since: '2026-01-01T00:00:00Z' });
+      expect(octokit.issues.listComments).toHaveBeenCalledTimes(3); // Second call served from cache
+      expect(octokit.issues.listComments).toHaveBeenCalledWith(expect.objectContaining({ since: '2026-01-01T00:00:00Z', page: 1 }));
+
+      await github.getCodeRabbitComments({ ...params, since: '2026-02-01T00:00:00Z' });
+      expect(octokit.issues.listComments).toHaveBeenCalledTimes(6);
+      expect(octokit.issues.listComments).toHaveBeenLastCalledWith(expect.objectContaining({ since: '2026-02-01T00:00:00Z', page: 3 }));
+
+      await github.getCodeRabbitReviewComments({ ...params, since: '2026-03-01T00:00:00Z' });
+      expect(octokit.pulls.listReviewComments).toHaveBeenCalledWith(expect.objectContaining({ since: '2026-03-01T00:00:00Z', page: 1 }));
+    });
+  });
+
+  describe('Review status', () => {
+    const HEAD_SHA = 'b'.repeat(40);
+    const OLD_SHA = 'a'.repeat(40);
+    const params = { owner: 'acme', repo: 'app', prNumber: 1 };
+
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+    let pr: {
+      comments: Array<{ body: string; updated_at?: string }>;
+      reviews: Array<{ commit_id: string; submitted_at?: string }>;
+      checkRuns: Array<{ name: string; status: string; conclusion?: string | null }>;
+      statuses: Array<{ context: string; state: string }>;
+    };
+
+    const respond = (data: unknown) => ({ data, headers: {} });
+
+    beforeEach(() => {
+      pr = { comments: [], reviews: [], checkRuns: [], statuses: [] };
+      octokit = {
+        pulls: {
+          get: jest.fn(async () => respond({ head: { sha: HEAD_SHA } })),
+          listReviews: jest.fn(async () => respond(pr.reviews.map((review, i) => ({
+            id: i + 1,
+            state: 'COMMENTED',
+            body: '',
+            user: { login: 'coderabbitai[bot]' },
+            submitted_at: '2026-01-01T00:00:00Z',
+            html_url: `https://github.com/acme/app/pull/1#pullrequestreview-${i + 1}`,
+            ...review
+          })))),
+          listReviewComments: jest.fn(async () => respond([]))
+        },
+        issues: {
+          listComments: jest.fn(async () => respond(pr.comments.map((comment, i) => ({
+            id: i + 1,
+            user: { login: 'coderabbitai[bot]' },
+            created_at: '2026-01-01T00:00:00Z',
+            updated_at: '2026-01-01T00:00:00Z',
+            html_url: `https://github.com/acme/app/pull/1#issuecomment-${i + 1}`,
+            ...comment
+          }))))
+        },
+        checks: {
+          listForRef: jest.fn(async () => respond({ check_runs: pr.checkRuns.map(run => ({ app: { slug: 'coderabbitai' }, ...run })) }))
+        },
+        repos: {
+          getCombinedStatusForRef: jest.fn(async () => respond({ statuses: pr.statuses }))
+        }
+      };
+      github = createGitHub(process.cwd(), octokit);
+      (github as any).octokit.graphql = jest.fn(async () => ({ repository: { pullRequest: null } }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      destroyGitHub(github);
+    });
+
+    describe('getCodeRabbitReviewStatus', () => {
+      test('should report an in-progress placeholder even when an older review exists', async () => {
+        pr.reviews = [{ commit_id: OLD_SHA }];
+        pr.comments = [{ body: '<!-- This is an auto-generated comment: review in progress by coderabbit.ai -->\nCurrently processing new changes' }];
+
+        const status = await github.getCodeRabbitReviewStatus(params);
+
+        expect(status).toMatchObject({ state: 'in_progress', headSha: HEAD_SHA, reviewedSha: OLD_SHA });
+      });
+
+      test('should go by the most recently updated marker comment', async () => {
+        pr.comments = [
+          { body: 'Review in progress by coderabbit.ai', updated_at: '2026-01-01T00:00:00Z' },
+          { body: 'Reviews paused', updated_at: '2026-01-02T00:00:00Z' }
+        ];
+
+        expect(await github.getCodeRabbitReviewStatus(params)).toMatchObject({ state: 'paused' });
+      });
+
+      test('should detect skipped reviews unless the head commit was reviewed', async () => {
+        pr.comments = [{ body: '<!-- This is an auto-generated comment: skip review by coderabbit.ai -->\nReview skipped' }];
+        expect(await github.getCodeRabbitReviewStatus(params)).toMatchObject({ state: 'skipped' });
+
+        (github as any).cache.clear();
+        pr.reviews = [{ commit_id: HEAD_SHA }];
+        expect(await github.getCodeRabbitReviewStatus(params)).toMatchObject({ state: 'completed', reviewedSha: HEAD_SHA });
+      });
+
+      test('should stay pending while the latest review covers an older commit', async () => {
+        pr.reviews = [
+          { commit_id: HEAD_SHA, submitted_at: '2026-01-01T00:00:00Z' },
+          { commit_id: OLD_SHA, submitted_at: '2026-01-02T00:00:00Z' }
+        ];
+
+        const status = await github.getCodeRabbitReviewStatus(params);
+
+        expect(status).toMatchObject({ state: 'pending', reviewedSha: OLD_SHA, detail: 'Last review covered aaaaaaa' });
+        expect(octokit.checks.listForRef).toHaveBeenCalledWith(expect.objectContaining({ ref: HEAD_SHA }));
+      });
+
+      test('should follow CodeRabbit\'s check run on the head commit', async () => {
+        pr.checkRuns = [{ name: 'CodeRabbit', status: 'in_progress' }];
+        expect(await github.getCodeRabbitReviewStatus(params)).toMatchObject({ state: 'in_progress', checkStatus: 'in_progress' });
+
+        (github as any).cache.clear();
+        pr.checkRuns = [{ name: 'CodeRabbit', status: 'completed', conclusion: 'success' }];
+        expect(await github.getCodeRabbitReviewStatus(params)).toMatchObject({ state: 'completed', checkStatus: 'success' });
+        expect(octokit.repos.getCombinedStatusForRef).not.toHaveBeenCalled();
+      });
+
+      test('should fall back to the commit status without a check run', async () => {
+        pr.statuses = [{ context: 'CodeRabbit', state: 'pending' }];
+
+        expect(await github.getCodeRabbitReviewStatus(params)).toMatchObject({ state: 'in_progress', checkStatus: 'pending' });
+      });
+    });
+
+    describe('waitForCodeRabbitReview', () => {
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      });
+
+      test('should back off by 1.5x up to 60s and time out', async () => {
+        const onProgress = jest.fn((_status: { state: string }, _elapsedMs: number) => {});
+        const waiting = github.waitForCodeRabbitReview({ ...params, timeoutMs: 200000, pollIntervalMs: 30000, onProgress });
+        await jest.advanceTimersByTimeAsync(200000);
+
+        const result = await waiting;
+        // The last wait is cut short by the timeout
+        expect(onProgress.mock.calls.map(([, elapsedMs]) => elapsedMs)).toEqual([0, 30000, 75000, 135000, 195000, 200000]);
+        expect(result).toMatchObject({ timedOut: true, elapsedMs: 200000, status: { state: 'pending' } });
+        expect(result.findings).toBeUndefined();
+      });
+
+      test('should report progress on every poll and return findings once the head commit is reviewed', async () => {
+        const onProgress = jest.fn((_status: { state: string }, elapsedMs: number) => {
+          if (elapsedMs >= 20000) pr.reviews = [{ commit_id: HEAD_SHA }];
+        });
+
+        const waiting = github.waitForCodeRabbitReview({ ...params, timeoutMs: 600000, pollIntervalMs: 20000, onProgress });
+        await jest.advanceTimersByTimeAsync(50000);
+
+        const result = await waiting;
+        expect(onProgress.mock.calls.map(([status, elapsedMs]) => [status.state, elapsedMs]))
+          .toEqual([['pending', 0], ['pending', 20000], ['completed', 50000]]);
+        expect(result).toMatchObject({ timedOut: false, elapsedMs: 50000, status: { state: 'completed' } });
+        expect(result.findings).toMatchObject({ prNumber: 1 });
+      });
+
+      test('should return at once when reviews are paused', async () => {
+        pr.comments = [{ body: 'Reviews paused' }];
+
+        const result = await github.waitForCodeRabbitReview({ ...params, timeoutMs: 600000, pollIntervalMs: 20000 });
+
+        expect(result).toMatchObject({ timedOut: false, elapsedMs: 0, status: { state: 'paused' } });
+        expect(octokit.pulls.get).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('previewPushChangesAndCreatePR', () => {
+    let remoteDir: string;
+    let dir: string;
+    let git: SimpleGit;
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+
+    beforeAll(async () => {
+      remoteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'preview-remote-'));
+      await simpleGit(remoteDir).init(true, ['--initial-branch=main']);
+
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'preview-'));
+      git = simpleGit(dir);
+      await git.init(['--initial-branch=main']);
+      await git.addConfig('user.name', 'Test');
+      await git.addConfig('user.email', 'test@example.com');
+      await git.addRemote('origin', remoteDir);
+
+      await fs.writeFile(path.join(dir, 'README.md'), '# App\n');
+      await git.add('.');
+      await git.commit('Initial commit');
+      await git.push('origin', 'main:develop');
+
+      await fs.writeFile(path.join(dir, 'CHANGELOG.md'), '# Changes\n');
+      await git.add('.');
+      await git.commit('Add changelog');
+      await git.push('origin', 'main');
+
+      // Local commit not pushed yet
+      await fs.writeFile(path.join(dir, 'feature.ts'), 'export const feature = true;\n');
+      await git.add('.');
+      await git.commit('Add feature');
+      await git.fetch('origin');
+
+      octokit = { repos: { get: jest.fn(async () => ({ data: { default_branch: 'develop' }, headers: {} })) } };
+      github = createGitHub(dir, octokit);
+    });
+
+    afterEach(async () => {
+      await git.raw(['reset', '--hard', 'HEAD']);
+      await git.raw(['clean', '-fd']);
+    });
+
+    afterAll(async () => {
+      destroyGitHub(github);
+      await fs.rm(dir, { recursive: true, force: true });
+      await fs.rm(remoteDir, { recursive: true, force: true });
+    });
+
+    test('should preview against the default branch without touching the repository', async () => {
+      await fs.writeFile(path.join(dir, 'README.md'), '# App\n\nUpdated.\n');
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'todo\n');
+      const statusBefore = await git.status();
+      const headBefore = await git.revparse(['HEAD']);
+
+      const preview = await github.previewPushChangesAndCreatePR({
+        owner: 'acme',
+        repo: 'app',
+        branch: 'feature/readme',
+        title: 'Update readme'
+      });
+
+      expect(preview).toMatchObject({
+        currentBranch: 'main',
+        branch: 'feature/readme',
+        base: 'develop',
+        filesToStage: ['README.md'],
+        untrackedExcluded: ['notes.txt']
+      });
+      expect(preview.commitMessage).toContain('Update readme');
+      expect(preview.blockers).toEqual([expect.stringContaining('uncommitted changes')]);
+      expect(preview.commitsAhead).toEqual([expect.stringMatching(/ Add feature$/), expect.stringMatching(/ Add changelog$/)]);
+      expect(octokit.repos.get).toHaveBeenCalledWith(expect.objectContaining({ owner: 'acme', repo: 'app' }));
+
+      // Nothing staged, committed or branched
+      const statusAfter = await git.status();
+      expect(statusAfter.files).toEqual(statusBefore.files);
+      expect(statusAfter.staged).toEqual([]);
+      expect(await git.revparse(['HEAD'])).toBe(headBefore);
+      expect((await git.branchLocal()).all).toEqual(['main']);
+    });
+
+    test('should compare with the configured base', async () => {
+      octokit.repos.get.mockClear();
+
+      const preview = await github.previewPushChangesAndCreatePR({
+        owner: 'acme',
+        repo: 'app',
+        branch: 'feature/x',
+        title: 'Add feature',
+        base: 'main'
+      });
+
+      expect(preview.base).toBe('main');
+      expect(preview.commitsAhead).toEqual([expect.stringMatching(/ Add feature$/)]);
+      expect(preview.blockers).toEqual([]);
+      expect(octokit.repos.get).not.toHaveBeenCalled();
+    });
+
+    test('should allow uncommitted changes in isolated mode and flag existing branches', async () => {
+      await fs.writeFile(path.join(dir, 'README.md'), '# App\n\nUpdated.\n');
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'todo\n');
+
+      const preview = await github.previewPushChangesAndCreatePR({
+        owner: 'acme',
+        repo: 'app',
+        branch: 'main',
+        title: 'Update readme',
+        base: 'main',
+        includeUntracked: true,
+        isolated: true
+      });
+
+      expect(preview.filesToStage.sort()).toEqual(['README.md', 'notes.txt']);
+      expect(preview.untrackedExcluded).toEqual([]);
+      expect(preview.blockers).toEqual(['Branch main already exists locally. Please use a different branch name.']);
+    });
+
+    test('should log to stderr when the base is missing on origin', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const preview = await github.previewPushChangesAndCreatePR({
+        owner: 'acme',
+        repo: 'app',
+        branch: 'feature/x',
+        title: 'Add feature',
+        base: 'release'
+      });
+
+      expect(preview.commitsAhead).toEqual([]);
+      expect(consoleError).toHaveBeenCalledWith('Could not compare with origin/release:', expect.anything());
+    });
+  });
+
+  describe('pushChangesAndCreatePR in isolated mode', () => {
+    let remoteDir: string;
+    let dir: string;
+    let git: SimpleGit;
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+
+    // Everything about the checkout the isolated push must leave alone
+    const snapshot = async () => ({
+      head: await git.revparse(['HEAD']),
+      branch: await git.revparse(['--abbrev-ref', 'HEAD']),
+      branches: (await git.branchLocal()).all,
+      status: await git.raw(['status', '--porcelain']),
+      index: await git.raw(['diff', '--cached']),
+      workingTree: await git.raw(['diff']),
+      untracked: await fs.readFile(path.join(dir, 'notes.txt'), 'utf-8'),
+      worktrees: await git.raw(['worktree', 'list', '--porcelain'])
+    });
+
+    const remoteBranch = async (branch: string) =>
+      (await simpleGit(remoteDir).raw(['branch', '--list', branch])).trim();
+
+    beforeAll(async () => {
+      remoteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'isolated-remote-'));
+      await simpleGit(remoteDir).init(true, ['--initial-branch=main']);
+
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'isolated-'));
+      git = simpleGit(dir);
+      await git.init(['--initial-branch=main']);
+      await git.addConfig('user.name', 'Test');
+      await git.addConfig('user.email', 'test@example.com');
+      await git.addRemote('origin', remoteDir);
+
+      await fs.mkdir(path.join(dir, 'src'));
+      await fs.writeFile(path.join(dir, 'README.md'), '# App\n');
+      await fs.writeFile(path.join(dir, 'src', 'app.ts'), 'export const a = 1;\n');
+      await fs.writeFile(path.join(dir, 'old.txt'), 'obsolete\n');
+      await fs.writeFile(path.join(dir, 'legacy.ts'), 'export const legacy = true;\n');
+      await git.add('.');
+      await git.commit('Initial commit');
+      await git.push('origin', 'main');
+
+      // Unstaged, staged, renamed, deleted and untracked changes
+      await fs.writeFile(path.join(dir, 'README.md'), '# App\n\nUpdated.\n');
+      await fs.writeFile(path.join(dir, 'src', 'app.ts'), 'export const a = 2;\n');
+      await git.add('src/app.ts');
+      await git.mv('legacy.ts', 'src/legacy.ts');
+      await fs.rm(path.join(dir, 'old.txt'));
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'todo\n');
+
+      octokit = { pulls: { create: jest.fn() } };
+      github = createGitHub(dir, octokit);
+    });
+
+    afterAll(async () => {
+      destroyGitHub(github);
+      await fs.rm(dir, { recursive: true, force: true });
+      await fs.rm(remoteDir, { recursive: true, force: true });
+    });
+
+    test('should push the changes without touching the working tree or index', async () => {
+      octokit.pulls.create.mockResolvedValueOnce({ data: { number: 7, html_url: 'https://github.com/acme/app/pull/7', state: 'open' } });
+      const before = await snapshot();
+
+      const result = await github.pushChangesAndCreatePR({
+        owner: 'acme',
+        repo: 'app',
+        branch: 'feature/isolated',
+        title: 'Update app',
+        base: 'main',
+        isolated: true
+      });
+
+      expect(result).toMatchObject({ number: 7, branch: 'feature/isolated', base: 'main' });
+      expect(await snapshot()).toEqual(before);
+
+      // Pushed as HEAD:refs/heads/<branch>, with tracked changes only
+      const remote = simpleGit(remoteDir);
+      expect((await remote.revparse(['refs/heads/feature/isolated'])).trim()).toBe(result.commitSha);
+      expect((await remote.raw(['diff', '--name-status', 'main', 'feature/isolated'])).trim().split('\n').sort())
+        .toEqual(['D\told.txt', 'M\tREADME.md', 'M\tsrc/app.ts', 'R100\tlegacy.ts\tsrc/legacy.ts']);
+      await expect(remote.show(['feature/isolated:legacy.ts'])).rejects.toThrow();
+      expect(await remote.show(['feature/isolated:src/app.ts'])).toBe('export const a = 2;\n');
+      expect(octokit.pulls.create).toHaveBeenCalledWith(expect.objectContaining({ head: 'feature/isolated', base: 'main' }));
+    });
+
+    test('should remove the worktree and the remote branch when creating the PR fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      let pushedBranch = '';
+      let worktreeDir = '';
+      octokit.pulls.create.mockImplementationOnce(async () => {
+        pushedBranch = await remoteBranch('feature/failed');
+        worktreeDir = (await git.raw(['worktree', 'list', '--porcelain'])).match(/^worktree (.+)$/gm)![1].slice('worktree '.length);
+        throw new Error('Validation Failed');
+      });
+      const before = await snapshot();
+
+      await expect(github.pushChangesAndCreatePR({
+        owner: 'acme',
+        repo: 'app',
+        branch: 'feature/failed',
+        title: 'Update app',
+        base: 'main',
+        isolated: true
+      })).rejects.toThrow('Validation Failed');
+
+      expect(pushedBranch).toContain('feature/failed');
+      expect(await remoteBranch('feature/failed')).toBe('');
+      expect(await snapshot()).toEqual(before);
+      await expect(fs.access(worktreeDir)).rejects.toThrow();
+    });
+  });
+
+  describe('Conditional requests', () => {
+    const params = { owner: 'acme', repo: 'app', prNumber: 1 };
+    const comment = {
+      id: 1,
+      body: 'Summary',
+      user: { login: 'coderabbitai[bot]' },
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      html_url: 'https://github.com/acme/app/pull/1#issuecomment-1'
+    };
+    const notModified = () => Object.assign(new Error('Not Modified'), { status: 304 });
+
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+
+    // Request headers of each listComments call
+    const sentHeaders = () => octokit.issues.listComments.mock.calls.map(([request]) => (request as { headers: object }).headers);
+
+    beforeEach(() => {
+      octokit = {
+        issues: {
+          listComments: jest.fn(async () => ({ data: [comment], headers: { etag: '"v1"' } })),
+          createComment: jest.fn(async () => ({ data: { id: 2, body: '@coderabbitai why?', created_at: '2026-01-01T00:00:00Z', html_url: '' } }))
+        },
+        pulls: {
+          create: jest.fn(async () => ({ data: { number: 2, html_url: 'https://github.com/acme/app/pull/2', state: 'open' } }))
+        }
+      };
+      github = createGitHub(process.cwd(), octokit);
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      destroyGitHub(github);
+    });
+
+    test('should send the stored ETag and reuse the cached body on 304', async () => {
+      const first = await github.getCodeRabbitComments(params);
+      expect(sentHeaders()).toEqual([{}]);
+
+      // Reads within a few seconds share the response
+      await github.getCodeRabbitComments(params);
+      expect(octokit.issues.listComments).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(6000);
+      octokit.issues.listComments.mockRejectedValueOnce(notModified());
+      const second = await github.getCodeRabbitComments(params);
+
+      expect(sentHeaders()).toEqual([{}, { 'if-none-match': '"v1"' }]);
+      expect(second).toEqual(first);
+      expect(second.items[0].body).toBe('Summary');
+    });
+
+    test('should rethrow a 304 without a cached body', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      octokit.issues.listComments.mockRejectedValueOnce(notModified());
+
+      await expect(github.getCodeRabbitComments(params)).rejects.toThrow('Not Modified');
+    });
+
+    test('should drop the cached PR after asking CodeRabbit', async () => {
+      await github.getCodeRabbitComments(params);
+      await github.getCodeRabbitComments({ ...params, prNumber: 2 });
+
+      await github.askCodeRabbit({ ...params, question: 'why?' });
+      await github.getCodeRabbitComments(params);
+      await github.getCodeRabbitComments({ ...params, prNumber: 2 });
+
+      // Refetched from scratch for PR 1 only
+      expect(sentHeaders()).toEqual([{}, {}, {}]);
+      expect(octokit.issues.listComments).toHaveBeenLastCalledWith(expect.objectContaining({ issue_number: 1 }));
+    });
+
+    test('should drop the cached PR after creating it', async () => {
+      await github.getCodeRabbitComments({ ...params, prNumber: 2 });
+      jest.advanceTimersByTime(6000);
+
+      await github.createPullRequest({ owner: 'acme', repo: 'app', title: 'Add feature', head: 'feature', base: 'main' });
+      await github.getCodeRabbitComments({ ...params, prNumber: 2 });
+
+      // Without the stale entry, no ETag is sent
+      expect(sentHeaders()).toEqual([{}, {}]);
+    });
+  });
+
+  describe('Review threads', () => {
+    const params = { owner: 'acme', repo: 'app', prNumber: 1 };
+
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+    let graphql: jest.Mock<(query: string, variables: Record<string, unknown>) => Promise<unknown>>;
+
+    const reviewThreads = (isResolved: boolean) => ({
+      repository: {
+        pullRequest: {
+          reviewThreads: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [{ id: 'PRRT_1', isResolved, isOutdated: false, comments: { nodes: [{ databaseId: 10 }, { databaseId: 11 }] } }]
+          }
+        }
+      }
+    });
+
+    beforeEach(() => {
+      octokit = {
+        pulls: {
+          getReviewComment: jest.fn(async ({ comment_id }: { comment_id: number }) => ({
+            data: {
+              id: comment_id,
+              in_reply_to_id: comment_id === 11 ? 10 : undefined,
+              path: 'src/app.ts',
+              pull_request_url: 'https://api.github.com/repos/acme/app/pulls/1'
+            }
+          })),
+          createReplyForReviewComment: jest.fn(async ({ comment_id }: { comment_id: number }) => ({
+            data: { id: 12, in_reply_to_id: comment_id, html_url: 'https://github.com/acme/app/pull/1#discussion_r12' }
+          }))
+        }
+      };
+      github = createGitHub(process.cwd(), octokit);
+      graphql = jest.fn(async () => reviewThreads(false));
+      (github as any).octokit.graphql = graphql;
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      destroyGitHub(github);
+    });
+
+    describe('replyToReviewComment', () => {
+      test('should reply to the root of the thread', async () => {
+        const result = await github.replyToReviewComment({ ...params, commentId: 11, body: 'Fixed', mentionCodeRabbit: true });
+
+        expect(octokit.pulls.createReplyForReviewComment).toHaveBeenCalledWith(
+          { owner: 'acme', repo: 'app', pull_number: 1, comment_id: 10, body: '@coderabbitai Fixed' }
+        );
+        expect(result).toEqual({ commentId: 12, inReplyToId: 10, path: 'src/app.ts', url: 'https://github.com/acme/app/pull/1#discussion_r12' });
+      });
+
+      test('should reply to a root comment directly', async () => {
+        await github.replyToReviewComment({ ...params, commentId: 10, body: 'Fixed' });
+
+        expect(octokit.pulls.createReplyForReviewComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 10, body: 'Fixed' }));
+      });
+
+      test('should reject comments from another PR', async () => {
+        // PR 11 shares a prefix with PR 1
+        await expect(github.replyToReviewComment({ ...params, prNumber: 11, commentId: 10, body: 'Fixed' }))
+          .rejects.toThrow('Review comment 10 does not belong to PR #11');
+        expect(octokit.pulls.createReplyForReviewComment).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('setReviewThreadResolved', () => {
+      test('should resolve the thread containing the comment', async () => {
+        graphql.mockResolvedValueOnce(reviewThreads(false));
+        graphql.mockResolvedValueOnce({ resolveReviewThread: { thread: { id: 'PRRT_1', isResolved: true } } });
+
+        const result = await github.setReviewThreadResolved({ ...params, commentId: 11, resolved: true });
+
+        expect(graphql).toHaveBeenNthCalledWith(1, expect.stringContaining('reviewThreads'), { owner: 'acme', repo: 'app', number: 1, cursor: null });
+        expect(graphql).toHaveBeenNthCalledWith(2, expect.stringContaining('resolveReviewThread(input: { threadId: $threadId })'), { threadId: 'PRRT_1' });
+        expect(result).toEqual({ threadId: 'PRRT_1', isResolved: true, changed: true });
+      });
+
+      test('should unresolve a resolved thread', async () => {
+        graphql.mockResolvedValueOnce(reviewThreads(true));
+        graphql.mockResolvedValueOnce({ unresolveReviewThread: { thread: { id: 'PRRT_1', isResolved: false } } });
+
+        const result = await github.setReviewThreadResolved({ ...params, commentId: 10, resolved: false });
+
+        expect(graphql).toHaveBeenLastCalledWith(expect.stringContaining('unresolveReviewThread(input: { threadId: $threadId })'), { threadId: 'PRRT_1' });
+        expect(result).toEqual({ threadId: 'PRRT_1', isResolved: false, changed: true });
+      });
+
+      test('should leave a thread already in the requested state alone', async () => {
+        graphql.mockResolvedValueOnce(reviewThreads(true));
+
+        const result = await github.setReviewThreadResolved({ ...params, commentId: 10, resolved: true });
+
+        expect(graphql).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ threadId: 'PRRT_1', isResolved: true, changed: false });
+      });
+
+      test('should fail for comments outside any thread', async () => {
+        await expect(github.setReviewThreadResolved({ ...params, commentId: 99, resolved: true }))
+          .rejects.toThrow('No review thread found for comment 99 in PR #1');
+      });
+    });
+  });
+
+  describe('getPullRequestDashboard', () => {
+    let github: GitHubIntegration;
+    let octokit: OctokitStub;
+
+    beforeEach(() => {
+      octokit = { search: { issuesAndPullRequests: jest.fn(async () => ({ data: { total_count: 0, items: [] }, headers: {} })) } };
+      github = createGitHub(process.cwd(), octokit);
+    });
+
+    afterEach(() => {
+      destroyGitHub(github);
+    });
+
+    test('should search all repositories of an owner with the user qualifier', async () => {
+      await github.getPullRequestDashboard({ owner: 'octocat', state: 'open', maxPullRequests: 30 });
+
+      expect(octokit.search.issuesAndPullRequests).toHaveBeenCalledWith(expect.objectContaining({ q: 'is:pr is:open user:octocat' }));
+    });
+
+    test('should search one repository with closed pull requests since a date', async () => {
+      await github.getPullRequestDashboard({ owner: 'acme', repo: 'app', state: 'closed', closedSince: '2026-01-01', maxPullRequests: 10 });
+
+      expect(octokit.search.issuesAndPullRequests).toHaveBeenCalledWith(
+        expect.objectContaining({ q: 'is:pr is:closed repo:acme/app closed:>=2026-01-01', per_page: 10 })
+      );
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { startHttpServer, HttpServerHandle } from '../src/http-transport';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+const createServer = () => new McpServer({ name: 'test', version: '1.0.0' });
+
+const post = (url: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body)
+  });
+
+describe('HTTP Transport', () => {
+  let handle: HttpServerHandle | undefined;
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+  });
+
+  test('should require an auth token on non-loopback addresses', async () => {
+    await expect(startHttpServer(createServer, { host: '0.0.0.0', port: 0 })).rejects.toThrow('auth token is required');
+  });
+
+  test('should reject requests without the bearer token', async () => {
+    handle = await startHttpServer(createServer, { host: '127.0.0.1', port: 0, authToken: 'secret' });
+
+    const response = await post(handle.url, INITIALIZE, { Authorization: 'Bearer wrong' });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  test('should create a session on initialize', async () => {
+    handle = await startHttpServer(createServer, { host: '127.0.0.1', port: 0, authToken: 'secret' });
+
+    const response = await post(handle.url, INITIALIZE, { Authorization: 'Bearer secret' });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  test('should close the server of an initialize request that creates no session', async () => {
+    const servers: McpServer[] = [];
+    handle = await startHttpServer(() => {
+      const server = createServer();
+      servers.push(server);
+      return server;
+    }, { host: '127.0.0.1', port: 0 });
+
+    // Rejected by the transport: the client does not accept event streams
+    const response = await post(handle.url, INITIALIZE, { Accept: 'application/json' });
+    await response.text();
+
+    expect(response.status).toBe(406);
+    expect(handle.sessionCount()).toBe(0);
+    expect(servers).toHaveLength(1);
+    expect(servers[0].isConnected()).toBe(false);
+  });
+
+  test('should reject non-initialize requests without a session', async () => {
+    handle = await startHttpServer(createServer, { host: '127.0.0.1', port: 0 });
+
+    const response = await post(handle.url, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(response.status).toBe(400);
+
+    const unknown = await post(handle.url, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'mcp-session-id': 'missing' });
+    expect(unknown.status).toBe(404);
+  });
+});
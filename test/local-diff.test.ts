@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { collectLocalDiff, parseNameStatus, parseNumstat, resolveBaseRef } from '../src/local-diff';
+
+describe('Local Diff', () => {
+  let dir: string;
+  let git: SimpleGit;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-diff-'));
+    git = simpleGit(dir);
+    await git.init(['--initial-branch=main']);
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+
+    await fs.mkdir(path.join(dir, 'src'));
+    await fs.writeFile(path.join(dir, 'src', 'app.ts'), 'export const a = 1;\n');
+    await fs.writeFile(path.join(dir, 'README.md'), '# App\n');
+    await git.add('.');
+    await git.commit('Initial commit');
+
+    await git.checkoutLocalBranch('feature');
+    await fs.writeFile(path.join(dir, 'src', 'feature.ts'), 'export const feature = true;\n');
+    await fs.writeFile(path.join(dir, 'logo.png'), Buffer.from([0, 1, 2, 3, 0]));
+    await git.add('.');
+    await git.commit('Add feature');
+
+    await fs.writeFile(path.join(dir, 'src', 'app.ts'), 'export const a = 2;\n');
+    await git.add('src/app.ts');
+    await fs.writeFile(path.join(dir, 'README.md'), `# App\n${'x'.repeat(500)}\n`);
+    await fs.writeFile(path.join(dir, 'notes.txt'), 'todo\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should parse numstat output with binary files and renames', () => {
+    expect(parseNumstat('3\t1\tsrc/a.ts\0-\t-\tlogo.png\0' + '0\t0\t\0old.ts\0new.ts\0')).toEqual([
+      { path: 'src/a.ts', additions: 3, deletions: 1, binary: false },
+      { path: 'logo.png', additions: 0, deletions: 0, binary: true },
+      { path: 'new.ts', oldPath: 'old.ts', additions: 0, deletions: 0, binary: false }
+    ]);
+  });
+
+  test('should parse name-status output with renames', () => {
+    expect(parseNameStatus('M\0src/a.ts\0R087\0old.ts\0new.ts\0D\0gone.ts\0')).toEqual([
+      { path: 'src/a.ts', status: 'M' },
+      { path: 'new.ts', oldPath: 'old.ts', status: 'R' },
+      { path: 'gone.ts', status: 'D' }
+    ]);
+  });
+
+  test('should fall back to the local main branch without origin', async () => {
+    expect(await resolveBaseRef(git)).toBe('main');
+    await expect(resolveBaseRef(git, 'release')).rejects.toThrow('does not exist');
+  });
+
+  test('should collect staged, unstaged and branch changes with limits', async () => {
+    const diff = await collectLocalDiff(git, { maxFileChars: 400 });
+
+    expect(diff).toMatchObject({ branch: 'feature', base: 'main', untracked: ['notes.txt'] });
+    const [staged, unstaged, branch] = diff.sections;
+    expect(staged.files.map(file => file.path)).toEqual(['src/app.ts']);
+    expect(staged.files[0].diff).toContain('+export const a = 2;');
+    expect(unstaged.files[0]).toMatchObject({ path: 'README.md', large: true });
+    expect(unstaged.files[0].diff).toBeUndefined();
+    const logo = branch.files.find(file => file.path === 'logo.png');
+    expect(logo?.binary).toBe(true);
+    expect(logo?.diff).toBeUndefined();
+  });
+
+  test('should stop diffing at the total limit and list the remaining files by name', async () => {
+    const diffSpy = jest.spyOn(git, 'diff');
+
+    const diff = await collectLocalDiff(git, { maxTotalChars: 300 });
+
+    expect(diff.truncated).toBe(true);
+    expect(diff.sections.map(section => section.kind)).toEqual(['staged', 'unstaged']);
+    expect(diff.sections[0].files[0].diff).toContain('+export const a = 2;');
+    expect(diff.sections[1].files).toEqual([]);
+    expect(diff.skipped).toEqual([
+      { kind: 'unstaged', path: 'README.md', status: 'M' },
+      { kind: 'branch', path: 'logo.png', status: 'A' },
+      { kind: 'branch', path: 'src/feature.ts', status: 'A' }
+    ]);
+    expect(diffSpy.mock.calls.map(([args]) => args)).toEqual([
+      ['--cached', '--numstat', '-z'],
+      ['--cached', '--', 'src/app.ts'],
+      ['--numstat', '-z'],
+      ['--', 'README.md'],
+      ['--name-status', '-z'],
+      ['main...HEAD', '--name-status', '-z']
+    ]);
+  });
+
+  test('should filter by path globs', async () => {
+    const diff = await collectLocalDiff(git, { include: ['branch'], paths: ['src/**'] });
+
+    expect(diff.sections).toHaveLength(1);
+    expect(diff.sections[0].files.map(file => file.path)).toEqual(['src/feature.ts']);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  countPendingQuestions,
+  countUnresolvedFindings,
+  formatPullRequestDashboard,
+  isReadyToMerge,
+  PullRequestDashboardEntry
+} from '../src/pr-dashboard';
+
+const finding = (severity: string, extra: { in_reply_to_id?: number; is_resolved?: boolean } = {}) => ({
+  body: `_⚠️ Potential issue_ | _${severity}_\n\n**Handle the empty case**\n\nDetails.`,
+  path: 'src/cache.ts',
+  line: 10,
+  start_line: null,
+  ...extra
+});
+
+const createEntry = (overrides: Partial<PullRequestDashboardEntry>): PullRequestDashboardEntry => ({
+  repository: 'octocat/hello-world',
+  number: 1,
+  title: 'Add cache',
+  author: 'octocat',
+  url: 'https://github.com/octocat/hello-world/pull/1',
+  draft: false,
+  state: 'open',
+  lastActivity: '2025-03-01T10:00:00Z',
+  reviewState: 'completed',
+  reviewedLatest: true,
+  unresolved: { critical: 0, high: 0, medium: 0, low: 0, info: 0 },
+  pendingQuestions: 0,
+  ...overrides
+});
+
+describe('PR Dashboard', () => {
+  test('should count only unresolved thread starters by severity', () => {
+    const counts = countUnresolvedFindings([
+      finding('🔴 Critical'),
+      finding('🟠 Major'),
+      finding('🟠 Major', { is_resolved: true }),
+      finding('🟡 Minor', { in_reply_to_id: 5 })
+    ]);
+
+    expect(counts).toEqual({ critical: 1, high: 1, medium: 0, low: 0, info: 0 });
+  });
+
+  test('should count questions mentioning CodeRabbit that have no reply', () => {
+    const questions = [
+      { id: 10, body: '@coderabbitai Why is this needed?', created_at: '2025-03-01T10:00:00Z' },
+      { id: 12, body: 'LGTM', created_at: '2025-03-01T10:05:00Z' },
+      { id: 14, body: '@coderabbitai full review', created_at: '2025-03-01T11:00:00Z' }
+    ];
+    const replies = [{ id: 11, body: 'It keeps the cache warm.', created_at: '2025-03-01T10:01:00Z' }];
+
+    expect(countPendingQuestions(questions, replies)).toBe(1);
+  });
+
+  test('should list ready pull requests first and report failed ones', () => {
+    const blocked = createEntry({ number: 2, lastActivity: '2025-03-02T00:00:00Z', unresolved: { critical: 0, high: 2, medium: 1, low: 0, info: 0 } });
+    const ready = createEntry({ number: 3 });
+    const failed = createEntry({ number: 4, error: 'Not Found', reviewState: undefined, unresolved: undefined });
+
+    expect(isReadyToMerge(ready)).toBe(true);
+    expect(isReadyToMerge(createEntry({ draft: true }))).toBe(false);
+
+    const markdown = formatPullRequestDashboard([blocked, failed, ready], 'Open Pull Requests');
+    expect(markdown).toContain('**Pull requests:** 3 (1 ready to merge)');
+    expect(markdown.indexOf('#3]')).toBeLessThan(markdown.indexOf('#2]'));
+    expect(markdown).toContain('| 2 high, 1 medium |');
+    expect(markdown).toContain('⚠️ Not Found');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  filterBySeverity,
+  buildAddressFindingsMessages,
+  buildTriageNitpicksMessages,
+  buildPRDescriptionMessages
+} from '../src/prompts';
+import { CodeRabbitIssue, CodeRabbitReview } from '../src/types';
+
+const URI = 'coderabbit://octocat/hello/pull/1/findings';
+
+const createIssue = (
+  id: string,
+  severity: CodeRabbitIssue['severity'],
+  category: CodeRabbitIssue['category'] = 'potential_issue'
+): CodeRabbitIssue => ({
+  id,
+  severity,
+  type: 'bug',
+  category,
+  file: 'src/index.ts',
+  line: 10,
+  message: `Finding ${id}`
+});
+
+const createReview = (issues: CodeRabbitIssue[]): CodeRabbitReview => ({
+  id: 'octocat/hello#1',
+  repository: 'octocat/hello',
+  prNumber: 1,
+  status: 'completed',
+  issues,
+  createdAt: new Date()
+});
+
+describe('Prompts', () => {
+  test('should keep findings at or above the severity, most severe first', () => {
+    const issues = [createIssue('a', 'low'), createIssue('b', 'critical'), createIssue('c', 'medium')];
+    expect(filterBySeverity(issues, 'medium').map(issue => issue.id)).toEqual(['b', 'c']);
+  });
+
+  test('should embed filtered findings as a resource', () => {
+    const review = createReview([createIssue('cr-high', 'high'), createIssue('cr-low', 'low')]);
+    const messages = buildAddressFindingsMessages(review, URI, 'medium');
+
+    expect(messages).toHaveLength(2);
+    const resource = messages[1].content;
+    expect(resource.type).toBe('resource');
+    if (resource.type === 'resource' && 'text' in resource.resource) {
+      expect(resource.resource.uri).toBe(URI);
+      expect(resource.resource.text).toContain('cr-high');
+      expect(resource.resource.text).not.toContain('cr-low');
+    }
+  });
+
+  test('should explain when nothing meets the severity threshold', () => {
+    const messages = buildAddressFindingsMessages(createReview([createIssue('cr-low', 'low')]), URI, 'high');
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content).toMatchObject({ type: 'text', text: expect.stringContaining('no findings of severity high') });
+  });
+
+  test('should triage findings CodeRabbit labelled as nitpicks, whatever their severity', () => {
+    const review = createReview([
+      createIssue('cr-high', 'high'),
+      createIssue('cr-nit', 'low', 'nitpick'),
+      createIssue('cr-minor-nit', 'medium', 'nitpick'),
+      createIssue('cr-info', 'info', 'verification')
+    ]);
+    const messages = buildTriageNitpicksMessages(review, URI);
+
+    expect(messages[0].content).toMatchObject({ text: expect.stringContaining('2 CodeRabbit nitpick(s)') });
+    const resource = messages[1].content;
+    if (resource.type === 'resource' && 'text' in resource.resource) {
+      expect(resource.resource.text).toContain('cr-minor-nit');
+      expect(resource.resource.text).not.toContain('cr-info');
+    }
+  });
+
+  test('should include commits and flag truncated diffs in PR description prompts', () => {
+    const messages = buildPRDescriptionMessages({
+      currentBranch: 'feature/login',
+      base: 'main',
+      commits: ['abc1234 Add login form'],
+      diffStat: ' src/login.ts | 10 ++++++++++',
+      diff: '+export function login() {}',
+      diffTruncated: true
+    });
+
+    expect(messages[1].content).toMatchObject({
+      type: 'text',
+      text: expect.stringContaining('- abc1234 Add login form')
+    });
+    expect(messages[1].content).toMatchObject({ text: expect.stringContaining('### Diff (truncated)') });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from '@jest/globals';
+import { splitReportRange, mergeReportChunks, mapWithConcurrency } from '../src/report-chunks';
+import { DeveloperActivityReport } from '../src/types';
+
+const createReport = (from: string, to: string, sections: DeveloperActivityReport['sections']): DeveloperActivityReport => ({
+  from,
+  to,
+  generatedAt: '2025-04-01T00:00:00.000Z',
+  sections
+});
+
+describe('Report Chunks', () => {
+  test('should keep ranges of up to a month in one chunk', () => {
+    const range = { from: '2025-01-01T00:00:00Z', to: '2025-01-31T23:59:59Z' };
+    expect(splitReportRange(range)).toEqual([range]);
+  });
+
+  test('should split long ranges into weeks that end where the next begins', () => {
+    const chunks = splitReportRange({ from: '2025-01-01T00:00:00Z', to: '2025-02-15T23:59:59Z' });
+
+    expect(chunks).toHaveLength(7);
+    expect(chunks[0]).toEqual({ from: '2025-01-01T00:00:00.000Z', to: '2025-01-07T23:59:59.000Z' });
+    expect(chunks[1].from).toBe('2025-01-08T00:00:00.000Z');
+    expect(chunks[6]).toEqual({ from: '2025-02-12T00:00:00.000Z', to: '2025-02-15T23:59:59.000Z' });
+  });
+
+  test('should split by calendar month when requested', () => {
+    const chunks = splitReportRange({ from: '2025-01-01T00:00:00Z', to: '2025-03-31T23:59:59Z' }, 'month');
+    expect(chunks.map(chunk => chunk.to)).toEqual([
+      '2025-01-31T23:59:59.000Z',
+      '2025-02-28T23:59:59.000Z',
+      '2025-03-31T23:59:59.000Z'
+    ]);
+  });
+
+  test('should reject ranges that end before they start', () => {
+    expect(() => splitReportRange({ from: '2025-02-01T00:00:00Z', to: '2025-01-01T00:00:00Z' })).toThrow('must not be before');
+  });
+
+  test('should merge sections by group and record failed chunks', () => {
+    const week1 = { from: '2025-01-01T00:00:00.000Z', to: '2025-01-07T23:59:59.000Z' };
+    const week2 = { from: '2025-01-08T00:00:00.000Z', to: '2025-01-14T23:59:59.000Z' };
+    const week3 = { from: '2025-01-15T00:00:00.000Z', to: '2025-01-21T23:59:59.000Z' };
+
+    const merged = mergeReportChunks({ from: week1.from, to: week3.to, groupBy: 'USER' }, [
+      { range: week1, report: createReport(week1.from, week1.to, [{ group: 'alice', report: 'Merged 2 PRs' }]) },
+      { range: week2, error: 'Request failed with status code 504' },
+      { range: week3, report: createReport(week3.from, week3.to, [
+        { group: 'bob', report: 'Reviewed 1 PR' },
+        { group: 'alice', report: 'Merged 1 PR' }
+      ]) }
+    ]);
+
+    expect(merged.sections.map(section => section.group)).toEqual(['alice', 'bob']);
+    expect(merged.sections[0].report).toBe(
+      `#### ${week1.from} to ${week1.to}\n\nMerged 2 PRs\n\n#### ${week3.from} to ${week3.to}\n\nMerged 1 PR`
+    );
+    expect(merged.failedChunks).toEqual([{ ...week2, error: 'Request failed with status code 504' }]);
+  });
+
+  test('should limit concurrency and keep result order', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async delay => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      active--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10]);
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseReportResponse, renderReport, writeReportFile } from '../src/report-format';
+import { DeveloperActivityReport } from '../src/types';
+
+const PARAMS = { from: '2025-01-01T00:00:00Z', to: '2025-01-31T23:59:59Z' };
+
+const createReport = (sections: DeveloperActivityReport['sections']): DeveloperActivityReport => ({
+  ...PARAMS,
+  groupBy: 'USER',
+  generatedAt: '2025-02-01T00:00:00.000Z',
+  sections
+});
+
+describe('Report Format', () => {
+  let workspace: string | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  test('should parse grouped sections and wrap plain markdown in a single section', () => {
+    const grouped = parseReportResponse([{ group: 'alice', report: '- Merged 3 PRs' }], { ...PARAMS, groupBy: 'USER' });
+    expect(grouped).toMatchObject({ ...PARAMS, groupBy: 'USER', sections: [{ group: 'alice', report: '- Merged 3 PRs' }] });
+
+    const plain = parseReportResponse('# Summary', PARAMS);
+    expect(plain.sections).toEqual([{ group: 'All', report: '# Summary' }]);
+  });
+
+  test('should reject responses that are not report sections', () => {
+    expect(() => parseReportResponse({ total: 3 }, PARAMS)).toThrow('Unexpected report response');
+  });
+
+  test('should render a markdown overview table for grouped reports', () => {
+    const markdown = renderReport(createReport([
+      { group: 'alice', report: '### Summary\n**Merged** 3 PRs' },
+      { group: 'bob', report: 'Reviewed | 5 PRs' }
+    ]), 'markdown');
+
+    expect(markdown).toContain('| alice | Summary |');
+    expect(markdown).toContain('| bob | Reviewed \\| 5 PRs |');
+    expect(markdown).toContain('### bob\n\nReviewed | 5 PRs');
+  });
+
+  test('should quote CSV fields containing commas, quotes and newlines', () => {
+    const csv = renderReport(createReport([{ group: 'team, core', report: 'Line one\n"quoted"' }]), 'csv');
+
+    expect(csv).toBe(
+      'from,to,group,report\r\n' +
+      '2025-01-01T00:00:00Z,2025-01-31T23:59:59Z,"team, core","Line one\n""quoted"""\r\n'
+    );
+  });
+
+  test('should write files inside the workspace and refuse paths outside it', async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'report-format-'));
+
+    const written = await writeReportFile(workspace, 'reports/january.md', '# Report');
+    expect(written).toBe(path.join(workspace, 'reports', 'january.md'));
+    expect(await fs.readFile(written, 'utf-8')).toBe('# Report');
+
+    await expect(writeReportFile(workspace, '../outside.md', '# Report')).rejects.toThrow('inside the workspace');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { ReportJobManager } from '../src/report-jobs';
+import { DeveloperActivityReport } from '../src/types';
+
+const PARAMS = { from: '2025-01-01T00:00:00Z', to: '2025-01-31T23:59:59Z' };
+
+const createReport = (report: string): DeveloperActivityReport => ({
+  ...PARAMS,
+  generatedAt: '2025-02-01T00:00:00.000Z',
+  sections: [{ group: 'All', report }]
+});
+
+/**
+ * Fake report client whose generate calls resolve or reject on demand
+ */
+function createClient() {
+  const cache = new Map<string, DeveloperActivityReport>();
+  const pending: Array<{ resolve: (value: DeveloperActivityReport) => void; reject: (error: Error) => void; signal?: AbortSignal }> = [];
+
+  const client = {
+    getReportId: (params: { from: string; to: string }) => `${params.from}|${params.to}`,
+    getCachedReport: (id: string) => cache.get(id) ?? null,
+    generateReport: jest.fn((params: { from: string; to: string }, options: { signal?: AbortSignal } = {}) =>
+      new Promise<DeveloperActivityReport>((resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('canceled')));
+        pending.push({
+          resolve: value => {
+            cache.set(client.getReportId(params), value);
+            resolve(value);
+          },
+          reject,
+          signal: options.signal
+        });
+      })
+    )
+  };
+
+  return { client, pending, cache };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ReportJobManager', () => {
+  test('should return a running job immediately and complete it in the background', async () => {
+    const { client, pending } = createClient();
+    const manager = new ReportJobManager(client);
+
+    const job = manager.start(PARAMS);
+    expect(job.status).toBe('running');
+
+    pending[0].resolve(createReport('3 PRs merged'));
+    await flush();
+
+    expect(manager.get(job.id)?.status).toBe('completed');
+    expect(manager.getResult(job.id)).toEqual(createReport('3 PRs merged'));
+  });
+
+  test('should keep output options out of the report parameters', () => {
+    const { client } = createClient();
+    const manager = new ReportJobManager(client);
+
+    const job = manager.start({ ...PARAMS, format: 'csv', outputPath: 'reports/january.csv' });
+    expect(job.params).toEqual(PARAMS);
+    expect(job.output).toEqual({ format: 'csv', outputPath: 'reports/january.csv' });
+  });
+
+  test('should reuse an active job and complete from the cache without calling the API', async () => {
+    const { client, pending } = createClient();
+    const manager = new ReportJobManager(client);
+
+    const first = manager.start(PARAMS);
+    expect(manager.start(PARAMS).id).toBe(first.id);
+
+    pending[0].resolve(createReport('report'));
+    await flush();
+
+    const cached = manager.start(PARAMS);
+    expect(cached).toMatchObject({ status: 'completed', cached: true });
+    expect(client.generateReport).toHaveBeenCalledTimes(1);
+  });
+
+  test('should cancel a running job through its abort signal', async () => {
+    const { client, pending } = createClient();
+    const manager = new ReportJobManager(client);
+
+    const job = manager.start(PARAMS);
+    manager.cancel(job.id);
+    await flush();
+
+    expect(pending[0].signal?.aborted).toBe(true);
+    expect(manager.get(job.id)?.status).toBe('cancelled');
+  });
+
+  test('should mark timed-out jobs as failed and retry them with the same parameters', async () => {
+    const { client, pending } = createClient();
+    const manager = new ReportJobManager(client, { timeoutMs: 20 });
+
+    const job = manager.start(PARAMS);
+    await new Promise(resolve => setTimeout(resolve, 40));
+    expect(manager.get(job.id)).toMatchObject({ status: 'failed', timedOut: true });
+
+    const retried = manager.retry(job.id);
+    expect(retried).toMatchObject({ status: 'running', attempts: 2 });
+    expect(client.generateReport).toHaveBeenLastCalledWith(expect.objectContaining(PARAMS), expect.anything());
+
+    pending[1].resolve(createReport('report'));
+    await flush();
+    expect(manager.get(job.id)?.status).toBe('completed');
+  });
+
+  test('should allow chunked reports one timeout per round of chunks', async () => {
+    const { client } = createClient();
+    const manager = new ReportJobManager(client, { timeoutMs: 20 });
+
+    // 13 weekly chunks, generated 3 at a time: 5 rounds
+    const job = manager.start({ from: '2025-01-01T00:00:00Z', to: '2025-03-31T23:59:59Z', chunkBy: 'week' });
+    await new Promise(resolve => setTimeout(resolve, 40));
+    expect(manager.get(job.id)?.status).toBe('running');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(manager.get(job.id)).toMatchObject({ status: 'failed', timedOut: true });
+  });
+
+  test('should refuse to retry jobs that have not failed', () => {
+    const { client } = createClient();
+    const manager = new ReportJobManager(client);
+    const job = manager.start(PARAMS);
+
+    expect(() => manager.retry(job.id)).toThrow('only failed or cancelled jobs can be retried');
+  });
+
+  test('should queue jobs beyond the concurrency limit', async () => {
+    const { client, pending } = createClient();
+    const manager = new ReportJobManager(client, { maxConcurrent: 1 });
+
+    manager.start(PARAMS);
+    const second = manager.start({ ...PARAMS, to: '2025-02-28T23:59:59Z' });
+    expect(second.status).toBe('queued');
+
+    pending[0].resolve(createReport('first'));
+    await flush();
+    expect(manager.get(second.id)?.status).toBe('running');
+  });
+
+  test('should wait for completion and report progress', async () => {
+    const { client, pending } = createClient();
+    const manager = new ReportJobManager(client);
+    const job = manager.start(PARAMS);
+    const onProgress = jest.fn(() => {});
+
+    setTimeout(() => pending[0].resolve(createReport('report')), 20);
+    const finished = await manager.wait(job.id, { timeoutMs: 1000, progressIntervalMs: 5, onProgress });
+
+    expect(finished.status).toBe('completed');
+    expect(onProgress).toHaveBeenCalled();
+  });
+});
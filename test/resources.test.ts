@@ -0,0 +1,55 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { PullRequestWatcher, parsePullResourceUri, pullResourceUri } from '../src/resources';
+
+describe('Resources', () => {
+  describe('Resource URIs', () => {
+    test('should round-trip pull request resource URIs', () => {
+      const uri = pullResourceUri('octocat', 'hello-world', 42, 'findings');
+
+      expect(uri).toBe('coderabbit://octocat/hello-world/pull/42/findings');
+      expect(parsePullResourceUri(uri)).toEqual({ owner: 'octocat', repo: 'hello-world', prNumber: 42, kind: 'findings' });
+    });
+
+    test('should not parse report URIs as pull requests', () => {
+      expect(parsePullResourceUri('coderabbit://reports/abc')).toBeNull();
+    });
+  });
+
+  describe('PullRequestWatcher', () => {
+    test('should notify subscribed URIs only when activity changes', async () => {
+      let marker = 'a';
+      const github = { getCodeRabbitActivity: jest.fn(async () => marker) };
+      const notify = jest.fn(async (_uri: string) => {});
+      const watcher = new PullRequestWatcher(github, notify, 60000);
+
+      const comments = pullResourceUri('octocat', 'hello', 1, 'comments');
+      const findings = pullResourceUri('octocat', 'hello', 1, 'findings');
+      expect(watcher.subscribe(comments)).toBe(true);
+      expect(watcher.subscribe(findings)).toBe(true);
+      expect(watcher.subscribe('coderabbit://reports/abc')).toBe(false);
+
+      await watcher.poll();
+      expect(notify).not.toHaveBeenCalled();
+
+      marker = 'b';
+      await watcher.poll();
+      expect(notify.mock.calls.map(call => call[0])).toEqual([comments, findings]);
+      // One fetch per pull request, shared by both URIs
+      expect(github.getCodeRabbitActivity).toHaveBeenCalledTimes(3);
+
+      watcher.stop();
+    });
+
+    test('should stop watching once every URI is unsubscribed', async () => {
+      const github = { getCodeRabbitActivity: jest.fn(async () => 'a') };
+      const watcher = new PullRequestWatcher(github, async () => {}, 60000);
+      const uri = pullResourceUri('octocat', 'hello', 1, 'reviews');
+
+      watcher.subscribe(uri);
+      watcher.unsubscribe(uri);
+      await watcher.poll();
+
+      expect(github.getCodeRabbitActivity).toHaveBeenCalledTimes(1);
+    });
+  });
+});
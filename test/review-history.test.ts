@@ -0,0 +1,64 @@
+import { describe, test, expect } from '@jest/globals';
+import { aggregateReviewHistory, formatReviewHistory, getWeekStart, ReviewHistoryEntry } from '../src/review-history';
+import { CodeRabbitIssue } from '../src/types';
+
+const issue = (file: string, severity: CodeRabbitIssue['severity'], type: CodeRabbitIssue['type']): CodeRabbitIssue => ({
+  id: `cr-${file}-${severity}`,
+  severity,
+  type,
+  file,
+  message: 'Finding'
+});
+
+const createReview = (prNumber: number, completedAt: string, issues: CodeRabbitIssue[]): ReviewHistoryEntry => ({
+  id: `octocat/hello-world#${prNumber}`,
+  repository: 'octocat/hello-world',
+  prNumber,
+  title: `PR ${prNumber}`,
+  status: 'completed',
+  issues,
+  createdAt: new Date(completedAt),
+  completedAt: new Date(completedAt),
+  url: `https://github.com/octocat/hello-world/pull/${prNumber}`
+});
+
+describe('Review History', () => {
+  test('should start weeks on Monday in UTC', () => {
+    expect(getWeekStart(new Date('2025-03-05T12:00:00Z'))).toBe('2025-03-03');
+    expect(getWeekStart(new Date('2025-03-09T23:59:59Z'))).toBe('2025-03-03');
+    expect(getWeekStart(new Date('2025-03-10T00:00:00Z'))).toBe('2025-03-10');
+  });
+
+  test('should aggregate findings per PR, issue types, hot files and weeks', () => {
+    const trends = aggregateReviewHistory([
+      createReview(1, '2025-03-04T10:00:00Z', [issue('src/cache.ts', 'high', 'bug'), issue('src/cache.ts', 'low', 'style')]),
+      createReview(2, '2025-03-11T10:00:00Z', [issue('src/cache.ts', 'high', 'bug'), issue('src/types.ts', 'medium', 'bug')]),
+      createReview(3, '2025-03-12T10:00:00Z', [])
+    ]);
+
+    expect(trends.totalFindings).toBe(4);
+    expect(trends.findingsPerPullRequest).toBeCloseTo(4 / 3);
+    expect(trends.bySeverity).toEqual({ critical: 0, high: 2, medium: 1, low: 1, info: 0 });
+    expect(trends.byType[0]).toEqual({ type: 'bug', count: 3 });
+    expect(trends.hotFiles[0]).toEqual({ file: 'src/cache.ts', findings: 3, pullRequests: 2 });
+    expect(trends.byWeek).toEqual([
+      { week: '2025-03-03', pullRequests: 1, findings: 2 },
+      { week: '2025-03-10', pullRequests: 2, findings: 2 }
+    ]);
+  });
+
+  test('should render the period, pull requests and a truncation note', () => {
+    const markdown = formatReviewHistory({
+      repository: 'octocat/hello-world',
+      since: '2025-03-01',
+      reviews: [createReview(7, '2025-03-04T10:00:00Z', [issue('src/cache.ts', 'high', 'bug')])],
+      truncated: true,
+      failed: [9]
+    });
+
+    expect(markdown).toContain('## CodeRabbit Review History for octocat/hello-world (2025-03-01 to now)');
+    expect(markdown).toContain('- [#7](https://github.com/octocat/hello-world/pull/7) PR 7: 1 finding(s), reviewed 2025-03-04');
+    expect(markdown).toContain('Could not load CodeRabbit reviews of #9');
+    expect(markdown).toContain('Limit reached');
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseReviewBody,
+  parseInlineComment,
+  parseWalkthrough,
+  computeReviewStats,
+  buildStructuredReview,
+  createIssueId,
+  detectReviewState
+} from '../src/review-parser';
+
+const REVIEW_BODY = `**Actionable comments posted: 1**
+
+<details>
+<summary>🧹 Nitpick comments (2)</summary><blockquote>
+
+<details>
+<summary>src/cache.ts (2)</summary><blockquote>
+
+\`10-12\`: **Prefer const over let.**
+
+The variable is never reassigned.
+
+\`\`\`diff
+-    let size = 0;
++    const size = 0;
+\`\`\`
+
+---
+
+\`40\`: **Avoid repeated string concatenation for performance.**
+
+Use an array join instead.
+
+</blockquote></details>
+
+</blockquote></details>
+
+<details>
+<summary>📜 Review details</summary>
+
+<details>
+<summary>📒 Files selected for processing (3)</summary>
+
+* \`src/cache.ts\` (1 hunks)
+
+</details>
+
+</details>`;
+
+const INLINE_COMMENT = `_⚠️ Potential issue_ | _🔴 Critical_
+
+**Token is logged in plain text.**
+
+Logging the GitHub token exposes a secret credential.
+
+<details>
+<summary>📝 Committable suggestion</summary>
+
+\`\`\`suggestion
+    console.warn('Authentication failed');
+\`\`\`
+
+</details>
+
+<!-- This is an auto-generated comment by CodeRabbit -->`;
+
+const WALKTHROUGH = `<!-- This is an auto-generated comment: summarize by coderabbit.ai -->
+## Walkthrough
+
+Adds a cache layer to GitHub reads.
+
+## Changes
+
+| Cohort / File(s) | Summary |
+|---|---|
+| \`src/cache.ts\`, \`src/types.ts\` | New cache |
+| \`src/server.ts\` | Wiring |
+
+## Sequence Diagram(s)
+...`;
+
+describe('Review Parser', () => {
+  describe('parseReviewBody', () => {
+    test('should extract nitpicks with file, line range and diff fix', () => {
+      const issues = parseReviewBody(REVIEW_BODY);
+
+      expect(issues).toHaveLength(2);
+      expect(issues[0]).toMatchObject({
+        file: 'src/cache.ts',
+        line: 10,
+        endLine: 12,
+        severity: 'low',
+        type: 'style',
+        category: 'nitpick',
+        message: 'Prefer const over let.',
+        suggestion: 'The variable is never reassigned.',
+        fixFormat: 'diff'
+      });
+      expect(issues[0].fix).toContain('+    const size = 0;');
+    });
+
+    test('should classify findings by wording', () => {
+      const issues = parseReviewBody(REVIEW_BODY);
+      expect(issues[1]).toMatchObject({ line: 40, endLine: 40, type: 'performance' });
+    });
+
+    test('should ignore sections outside finding categories', () => {
+      expect(parseReviewBody('<details>\n<summary>📜 Review details</summary>\n</details>')).toEqual([]);
+    });
+  });
+
+  describe('parseInlineComment', () => {
+    test('should parse severity badge, category and committable suggestion', () => {
+      const issue = parseInlineComment(INLINE_COMMENT, { path: 'src/github-integration.ts', line: 48, startLine: 47 });
+
+      expect(issue).toMatchObject({
+        file: 'src/github-integration.ts',
+        line: 47,
+        endLine: 48,
+        severity: 'critical',
+        type: 'security',
+        message: 'Token is logged in plain text.',
+        fixFormat: 'suggestion',
+        fix: "    console.warn('Authentication failed');"
+      });
+      expect(issue?.suggestion).not.toContain('suggestion');
+    });
+
+    test('should return null for empty bodies', () => {
+      expect(parseInlineComment('<!-- only metadata -->', { path: 'a.ts', line: 1 })).toBeNull();
+    });
+  });
+
+  describe('parseWalkthrough', () => {
+    test('should extract summary and changed files', () => {
+      const result = parseWalkthrough(WALKTHROUGH);
+      expect(result.summary).toBe('Adds a cache layer to GitHub reads.');
+      expect(result.files).toEqual(['src/cache.ts', 'src/types.ts', 'src/server.ts']);
+    });
+  });
+
+  describe('computeReviewStats', () => {
+    test('should count findings by severity', () => {
+      const issues = parseReviewBody(REVIEW_BODY);
+      const stats = computeReviewStats(issues, { filesReviewed: 3 });
+
+      expect(stats).toEqual({
+        filesReviewed: 3,
+        linesAnalyzed: 0,
+        issuesFound: 2,
+        criticalCount: 0,
+        highCount: 0,
+        mediumCount: 0,
+        lowCount: 2
+      });
+    });
+  });
+
+  describe('buildStructuredReview', () => {
+    test('should combine comments, reviews and inline comments', () => {
+      const review = buildStructuredReview({
+        repository: 'octocat/hello-world',
+        prNumber: 7,
+        comments: [{ id: 1, body: WALKTHROUGH, created_at: '2025-01-01T10:00:00Z' }],
+        reviews: [{ id: 2, body: REVIEW_BODY, submitted_at: '2025-01-01T10:05:00Z' }],
+        inlineComments: [{ id: 3, body: INLINE_COMMENT, path: 'src/a.ts', line: 5 }]
+      });
+
+      expect(review.status).toBe('completed');
+      expect(review.summary).toBe('Adds a cache layer to GitHub reads.');
+      expect(review.issues).toHaveLength(3);
+      expect(review.stats?.filesReviewed).toBe(3);
+      expect(review.stats?.criticalCount).toBe(1);
+      expect(review.completedAt?.toISOString()).toBe('2025-01-01T10:05:00.000Z');
+    });
+
+    test('should report in-progress reviews', () => {
+      const review = buildStructuredReview({
+        repository: 'octocat/hello-world',
+        prNumber: 7,
+        comments: [{ id: 1, body: '<!-- This is an auto-generated comment: review in progress by coderabbit.ai -->', created_at: '2025-01-01T10:00:00Z' }],
+        reviews: []
+      });
+
+      expect(review.status).toBe('in_progress');
+      expect(review.completedAt).toBeUndefined();
+    });
+  });
+
+  describe('createIssueId', () => {
+    test('should be stable for the same finding', () => {
+      expect(createIssueId('a.ts', 1, 'Message')).toBe(createIssueId('a.ts', 1, ' message '));
+      expect(createIssueId('a.ts', 1, 'Message')).not.toBe(createIssueId('a.ts', 2, 'Message'));
+    });
+  });
+
+  describe('detectReviewState', () => {
+    test('should detect in-progress, paused and skipped markers', () => {
+      expect(detectReviewState('<!-- This is an auto-generated comment: review in progress by coderabbit.ai -->')).toBe('in_progress');
+      expect(detectReviewState('> [!NOTE]\n> ## Reviews paused\n> Use `@coderabbitai resume`')).toBe('paused');
+      expect(detectReviewState('<!-- This is an auto-generated comment: skip review by coderabbit.ai -->\n## Review skipped')).toBe('skipped');
+      expect(detectReviewState('## Walkthrough\nAll good')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, test, expect } from '@jest/globals';
+import { diffReviewRounds, groupReviewRounds, ReviewRound, RoundFinding, selectReviewRounds } from '../src/review-rounds';
+
+const finding = (file: string, line: number, message: string, extra: Partial<RoundFinding> = {}): RoundFinding => ({
+  id: `cr-${file}-${line}`,
+  severity: 'high',
+  type: 'bug',
+  file,
+  line,
+  endLine: line,
+  message,
+  ...extra
+});
+
+const round = (sha: string, findings: RoundFinding[]): ReviewRound => ({
+  sha,
+  submittedAt: '2025-03-01T10:00:00Z',
+  reviewIds: [1],
+  findings
+});
+
+const inlineComment = (reviewId: number, line: number, title: string, extra: { is_resolved?: boolean; is_outdated?: boolean; in_reply_to_id?: number } = {}) => ({
+  review_id: reviewId,
+  body: `_⚠️ Potential issue_ | _🟠 Major_\n\n**${title}**\n\nDetails.`,
+  path: 'src/cache.ts',
+  line,
+  start_line: null,
+  ...extra
+});
+
+describe('Review Rounds', () => {
+  test('should group reviews and their thread starters by reviewed commit in order', () => {
+    const rounds = groupReviewRounds(
+      [
+        { id: 2, body: '', submitted_at: '2025-03-02T10:00:00Z', commit_id: 'bbbbbbb1' },
+        { id: 1, body: '', submitted_at: '2025-03-01T10:00:00Z', commit_id: 'aaaaaaa1' },
+        { id: 3, body: '', submitted_at: null, commit_id: 'ccccccc1' }
+      ],
+      [
+        inlineComment(1, 10, 'Handle the empty cache'),
+        inlineComment(1, 10, 'Reply', { in_reply_to_id: 5 }),
+        inlineComment(2, 40, 'Close the file handle', { is_resolved: false, is_outdated: false })
+      ]
+    );
+
+    expect(rounds.map(r => r.sha)).toEqual(['aaaaaaa1', 'bbbbbbb1']);
+    expect(rounds[0].findings.map(f => f.message)).toEqual(['Handle the empty cache']);
+    expect(rounds[1].findings[0]).toMatchObject({ message: 'Close the file handle', threadOpen: true });
+  });
+
+  test('should match repeated findings across line drift and classify the rest', () => {
+    const base = round('aaaaaaa1', [
+      finding('src/cache.ts', 10, 'Handle the empty cache on line 10'),
+      finding('src/cache.ts', 50, 'Close the file handle'),
+      finding('src/types.ts', 5, 'Validate the `limit` option', { threadOpen: true }),
+      finding('src/types.ts', 90, 'Remove unused import')
+    ]);
+    const head = round('bbbbbbb1', [
+      finding('src/cache.ts', 14, 'Handle the empty cache on line 14'),
+      finding('src/cache.ts', 120, 'Close the file handle'),
+      finding('src/server.ts', 3, 'Log errors to stderr')
+    ]);
+
+    const diff = diffReviewRounds(base, head);
+
+    expect(diff.stillOpen.map(item => [item.finding.file, item.finding.line, item.previous ? item.lineDrift : 'open thread'])).toEqual([
+      ['src/cache.ts', 14, 4],
+      ['src/types.ts', 5, 'open thread']
+    ]);
+    expect(diff.new.map(f => `${f.file}:${f.line}`)).toEqual(['src/cache.ts:120', 'src/server.ts:3']);
+    expect(diff.resolved.map(f => `${f.file}:${f.line}`)).toEqual(['src/cache.ts:50', 'src/types.ts:90']);
+  });
+
+  test('should match reworded findings at nearly the same place', () => {
+    const diff = diffReviewRounds(
+      round('aaaaaaa1', [finding('src/cache.ts', 10, 'Guard against a missing cache entry before reading it')]),
+      round('bbbbbbb1', [finding('src/cache.ts', 12, 'Guard against a missing cache entry before using it')])
+    );
+
+    expect(diff.new).toHaveLength(0);
+    expect(diff.stillOpen[0]).toMatchObject({ lineDrift: 2 });
+  });
+
+  test('should select the last two rounds by default and rounds by SHA prefix', () => {
+    const rounds = [round('aaaaaaa1', []), round('bbbbbbb1', []), round('ccccccc1', [])];
+
+    expect(selectReviewRounds(rounds)).toMatchObject({ base: { sha: 'bbbbbbb1' }, head: { sha: 'ccccccc1' } });
+    expect(selectReviewRounds(rounds, { baseSha: 'AAAAAAA' })).toMatchObject({ base: { sha: 'aaaaaaa1' }, head: { sha: 'ccccccc1' } });
+    expect(() => selectReviewRounds(rounds, { headSha: 'aaaaaaa' })).toThrow('none precedes the head round');
+    expect(() => selectReviewRounds(rounds, { headSha: 'ddddddd' })).toThrow('has not reviewed commit ddddddd');
+    expect(() => selectReviewRounds([round('aaaaaaa1', [])])).toThrow('found 1');
+  });
+});
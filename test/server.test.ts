@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+// Octokit is ESM-only; listing prompts makes no GitHub calls
+jest.mock('@octokit/rest', () => ({ Octokit: { plugin: () => class {} } }));
+jest.mock('@octokit/plugin-throttling', () => ({ throttling: {} }));
+
+import { startServer } from '../src/server';
+import { HttpServerHandle } from '../src/http-transport';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+const post = (url: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body)
+  });
+
+// Responses arrive as a server-sent event stream with one JSON-RPC message
+async function readMessage(response: Response): Promise<any> {
+  const data = (await response.text()).split('\n').find(line => line.startsWith('data: '));
+  return JSON.parse(data!.slice('data: '.length));
+}
+
+async function listPrompts(handle: HttpServerHandle): Promise<string[]> {
+  const initialized = await post(handle.url, INITIALIZE);
+  await initialized.text();
+  const headers = { 'mcp-session-id': initialized.headers.get('mcp-session-id')! };
+
+  await (await post(handle.url, { jsonrpc: '2.0', method: 'notifications/initialized' }, headers)).text();
+  const message = await readMessage(await post(handle.url, { jsonrpc: '2.0', id: 2, method: 'prompts/list' }, headers));
+  return message.result.prompts.map((prompt: { name: string }) => prompt.name);
+}
+
+describe('startServer over HTTP', () => {
+  const env = process.env;
+  let handle: HttpServerHandle | undefined;
+  let setIntervalSpy: jest.SpiedFunction<typeof setInterval>;
+
+  beforeEach(() => {
+    process.env = { ...env, CODERABBIT_API_KEY: 'test-key', GITHUB_TOKEN: 'test-token', CACHE_DIR: 'none' };
+    delete process.env.MCP_HTTP_LOCAL_TOOLS;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setIntervalSpy = jest.spyOn(global, 'setInterval');
+  });
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+    // The caches created by startServer sweep on an interval for the life of the process
+    for (const result of setIntervalSpy.mock.results) {
+      clearInterval(result.value as ReturnType<typeof setInterval>);
+    }
+    process.env = env;
+  });
+
+  test('should not offer the pr-description prompt without MCP_HTTP_LOCAL_TOOLS', async () => {
+    handle = await startServer({ transport: 'http', host: '127.0.0.1', port: 0 }) as HttpServerHandle;
+
+    const prompts = await listPrompts(handle);
+    expect(prompts).toEqual(expect.arrayContaining(['address-findings', 'triage-nitpicks', 'summarize-review']));
+    expect(prompts).not.toContain('pr-description');
+  });
+
+  test('should offer the pr-description prompt when local tools are allowed', async () => {
+    process.env.MCP_HTTP_LOCAL_TOOLS = 'true';
+    handle = await startServer({ transport: 'http', host: '127.0.0.1', port: 0 }) as HttpServerHandle;
+
+    expect(await listPrompts(handle)).toContain('pr-description');
+  });
+});
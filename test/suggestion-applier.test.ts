@@ -0,0 +1,97 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  extractReplacement,
+  planSuggestions,
+  applyEdits,
+  createUnifiedDiff
+} from '../src/suggestion-applier';
+import { extractHunkTargetLines } from '../src/review-parser';
+import { CodeRabbitIssue } from '../src/types';
+
+const FILE = ['import a from "a";', '', 'function run() {', '  let total = 0;', '  return total;', '}', ''].join('\n');
+
+const createIssue = (overrides: Partial<CodeRabbitIssue>): CodeRabbitIssue => ({
+  id: 'cr-1',
+  severity: 'low',
+  type: 'style',
+  file: 'src/run.ts',
+  message: 'Use const',
+  ...overrides
+});
+
+describe('Suggestion Applier', () => {
+  describe('extractReplacement', () => {
+    test('should use the reviewed snippet as original for committable suggestions', () => {
+      const issue = createIssue({ fix: '  const total = 0;', fixFormat: 'suggestion', codeSnippet: '  let total = 0;' });
+      expect(extractReplacement(issue)).toEqual({ original: ['  let total = 0;'], replacement: ['  const total = 0;'] });
+    });
+
+    test('should split diff fixes into original and replacement lines', () => {
+      const issue = createIssue({ fix: ' function run() {\n-  let total = 0;\n+  const total = 0;', fixFormat: 'diff' });
+      expect(extractReplacement(issue)).toEqual({
+        original: ['function run() {', '  let total = 0;'],
+        replacement: ['function run() {', '  const total = 0;']
+      });
+    });
+
+    test('should return null without a usable fix', () => {
+      expect(extractReplacement(createIssue({}))).toBeNull();
+      expect(extractReplacement(createIssue({ fix: 'x', fixFormat: 'suggestion' }))).toBeNull();
+    });
+  });
+
+  describe('planSuggestions', () => {
+    test('should apply suggestions whose lines moved and report the drift', () => {
+      const issue = createIssue({ line: 2, fix: '  const total = 0;', fixFormat: 'suggestion', codeSnippet: '  let total = 0;' });
+      const { edits, outcomes } = planSuggestions('src/run.ts', FILE, [issue]);
+
+      expect(edits).toHaveLength(1);
+      expect(outcomes[0]).toMatchObject({ status: 'applied', line: 4, drift: 2 });
+      expect(applyEdits(FILE, edits)).toContain('  const total = 0;');
+    });
+
+    test('should report conflicts when the original lines changed', () => {
+      const issue = createIssue({ line: 4, fix: '  const sum = 0;', fixFormat: 'suggestion', codeSnippet: '  let sum = 0;' });
+      const { edits, outcomes } = planSuggestions('src/run.ts', FILE, [issue]);
+
+      expect(edits).toHaveLength(0);
+      expect(outcomes[0].status).toBe('conflict');
+    });
+
+    test('should reject overlapping suggestions', () => {
+      const first = createIssue({ id: 'cr-1', line: 4, fix: '  const total = 0;', fixFormat: 'suggestion', codeSnippet: '  let total = 0;' });
+      const second = createIssue({ id: 'cr-2', line: 4, fix: '  var total = 0;', fixFormat: 'suggestion', codeSnippet: '  let total = 0;' });
+      const { outcomes } = planSuggestions('src/run.ts', FILE, [first, second]);
+
+      expect(outcomes.map(outcome => outcome.status)).toEqual(['applied', 'conflict']);
+    });
+  });
+
+  describe('createUnifiedDiff', () => {
+    test('should render a hunk with context', () => {
+      const issue = createIssue({ line: 4, fix: '  const total = 0;', fixFormat: 'suggestion', codeSnippet: '  let total = 0;' });
+      const { edits } = planSuggestions('src/run.ts', FILE, [issue]);
+
+      expect(createUnifiedDiff('src/run.ts', FILE, edits)).toBe([
+        '--- a/src/run.ts',
+        '+++ b/src/run.ts',
+        '@@ -1,6 +1,6 @@',
+        ' import a from "a";',
+        ' ',
+        ' function run() {',
+        '-  let total = 0;',
+        '+  const total = 0;',
+        '   return total;',
+        ' }',
+        ''
+      ].join('\n'));
+    });
+  });
+
+  describe('extractHunkTargetLines', () => {
+    test('should return the last new-side lines of a hunk', () => {
+      const hunk = '@@ -1,3 +1,4 @@\n function run() {\n-  var total;\n+  let total = 0;\n+  total++;';
+      expect(extractHunkTargetLines(hunk, 2)).toEqual(['  let total = 0;', '  total++;']);
+    });
+  });
+});
@@ -1,7 +1,14 @@
 import { describe, test, expect } from '@jest/globals';
 import { 
   GetCodeRabbitCommentsSchema,
+  GetCodeRabbitReviewCommentsSchema,
+  ReplyToReviewCommentSchema,
+  ResolveReviewThreadSchema,
+  RunCodeRabbitCommandRequestSchema,
+  AskCodeRabbitInPRRequestSchema,
+  GetPullRequestDashboardRequestSchema,
   GenerateReportSchema,
+  GenerateReportRequestSchema,
   CacheEntry
 } from '../src/types';
 
@@ -21,6 +28,11 @@ describe('Type Schemas', () => {
       }
     });
 
+    test('should allow owner, repo and PR number to be inferred', () => {
+      const result = GetCodeRabbitCommentsSchema.safeParse({ format: 'structured' });
+      expect(result.success).toBe(true);
+    });
+
     test('should reject invalid owner names', () => {
       const invalidParams = {
         owner: 'invalid owner!', // Contains space and special char
@@ -66,6 +78,85 @@ describe('Type Schemas', () => {
     });
   });
 
+  describe('GetCodeRabbitReviewCommentsSchema', () => {
+    test('should default to including resolved threads and replies', () => {
+      const result = GetCodeRabbitReviewCommentsSchema.safeParse({
+        owner: 'octocat',
+        repo: 'hello-world',
+        prNumber: 123
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.includeResolved).toBe(true);
+        expect(result.data.includeReplies).toBe(true);
+      }
+    });
+  });
+
+  describe('Review thread schemas', () => {
+    test('should mention CodeRabbit and resolve threads by default', () => {
+      const reply = ReplyToReviewCommentSchema.parse({ commentId: 42, body: 'Fixed in the latest commit' });
+      expect(reply.mentionCodeRabbit).toBe(true);
+
+      const resolve = ResolveReviewThreadSchema.parse({ commentId: 42 });
+      expect(resolve.resolved).toBe(true);
+    });
+
+    test('should reject empty replies and invalid comment IDs', () => {
+      expect(ReplyToReviewCommentSchema.safeParse({ commentId: 42, body: '' }).success).toBe(false);
+      expect(ResolveReviewThreadSchema.safeParse({ commentId: 1.5 }).success).toBe(false);
+    });
+  });
+
+  describe('RunCodeRabbitCommandRequestSchema', () => {
+    test('should accept arguments of the command and wait by default', () => {
+      const result = RunCodeRabbitCommandRequestSchema.safeParse({
+        command: 'generate unit tests',
+        paths: ['src/cache.ts'],
+        instructions: 'Cover eviction'
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.waitForAcknowledgment).toBe(true);
+      }
+    });
+
+    test('should reject arguments the command does not take', () => {
+      const result = RunCodeRabbitCommandRequestSchema.safeParse({ command: 'pause', paths: ['src/cache.ts'] });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toContain('not supported by the "pause" command');
+      }
+    });
+
+    test('should reject a timeout without waiting and unknown commands', () => {
+      expect(RunCodeRabbitCommandRequestSchema.safeParse({ command: 'review', waitForAcknowledgment: false, timeoutSeconds: 30 }).success).toBe(false);
+      expect(RunCodeRabbitCommandRequestSchema.safeParse({ command: 'approve' }).success).toBe(false);
+    });
+  });
+
+  describe('AskCodeRabbitInPRRequestSchema', () => {
+    test('should not wait for the answer unless asked to', () => {
+      const result = AskCodeRabbitInPRRequestSchema.parse({ question: 'Is this thread-safe?' });
+      expect(result.waitForReply).toBe(false);
+
+      expect(AskCodeRabbitInPRRequestSchema.safeParse({ question: 'Is this thread-safe?', timeoutSeconds: 60 }).success).toBe(false);
+      expect(AskCodeRabbitInPRRequestSchema.safeParse({ question: 'Is this thread-safe?', waitForReply: true, timeoutSeconds: 60 }).success).toBe(true);
+    });
+  });
+
+  describe('GetPullRequestDashboardRequestSchema', () => {
+    test('should reject an org together with a repository and closedWithinDays for open PRs', () => {
+      expect(GetPullRequestDashboardRequestSchema.parse({ org: 'octo-org' })).toMatchObject({ state: 'open', maxPullRequests: 30 });
+      expect(GetPullRequestDashboardRequestSchema.safeParse({ org: 'octo-org', repo: 'hello-world' }).success).toBe(false);
+      expect(GetPullRequestDashboardRequestSchema.safeParse({ closedWithinDays: 14 }).success).toBe(false);
+      expect(GetPullRequestDashboardRequestSchema.safeParse({ state: 'closed', closedWithinDays: 14 }).success).toBe(true);
+    });
+  });
+
   describe('GenerateReportSchema', () => {
     test('should validate correct report parameters', () => {
       const validParams = {
@@ -82,7 +173,7 @@ describe('Type Schemas', () => {
         from: '2024-01-01T00:00:00Z',
         to: '2024-01-31T23:59:59Z',
         orgId: 'org-123',
-        groupBy: 'author',
+        groupBy: 'USER',
         prompt: 'Generate detailed report'
       };
 
@@ -90,6 +181,27 @@ describe('Type Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    test('should reject unsupported groupBy values', () => {
+      const invalidParams = {
+        from: '2024-01-01T00:00:00Z',
+        to: '2024-01-31T23:59:59Z',
+        groupBy: 'author'
+      };
+
+      const result = GenerateReportSchema.safeParse(invalidParams);
+      expect(result.success).toBe(false);
+    });
+
+    test('should reject a range that ends before it starts', () => {
+      const invalidParams = {
+        from: '2024-02-01T00:00:00Z',
+        to: '2024-01-31T23:59:59+01:00'
+      };
+
+      const result = GenerateReportRequestSchema.safeParse(invalidParams);
+      expect(result.success).toBe(false);
+    });
+
     test('should reject invalid date format', () => {
       const invalidParams = {
         from: '2024-01-01', // Missing time component